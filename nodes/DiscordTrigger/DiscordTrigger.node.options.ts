@@ -7,15 +7,129 @@ export const options: INodeProperties[] = [
 
     type: 'options',
     options: [
+      {
+        name: 'Bot Added or Removed',
+        value: 'guild',
+        description: 'When the bot is added to or removed from a server',
+      },
+      {
+        name: 'Context Menu Command',
+        value: 'contextMenu',
+        description: 'When a user runs the message or user context menu command registered by this node (Apps menu)',
+      },
+      {
+        name: 'Interaction',
+        value: 'interaction',
+        description: 'When a user clicks a button or picks a value in a select menu',
+      },
+      {
+        name: 'Invite',
+        value: 'invite',
+        description: 'When an invite is created or deleted, or a new member joins through an invite',
+      },
+      {
+        name: 'Member',
+        value: 'member',
+        description: 'When a member joins, leaves or is updated in the selected servers',
+      },
       {
         name: 'Message',
         value: 'message',
         description: 'When a message is sent in the selected channels',
       },
+      {
+        name: 'Message Deleted',
+        value: 'messageDelete',
+        description: 'When a message is deleted in the selected channels, including bulk deletions',
+      },
+      {
+        name: 'Message Edited',
+        value: 'messageUpdate',
+        description: 'When a message is edited in the selected channels',
+      },
+      {
+        name: 'Modal Submitted',
+        value: 'modalSubmit',
+        description: 'When a user submits a modal form',
+      },
+      {
+        name: 'Moderation',
+        value: 'moderation',
+        description: 'When a user is banned from or unbanned in the selected servers',
+      },
+      {
+        name: 'Poll Vote',
+        value: 'pollVote',
+        description: 'When a user votes or removes their vote on a poll in the selected channels',
+      },
+      {
+        name: 'Presence',
+        value: 'presence',
+        description: 'When a member changes status or starts an activity, such as streaming or playing a game',
+      },
+      {
+        name: 'Reaction',
+        value: 'reaction',
+        description: 'When a reaction is added to or removed from a message in the selected channels',
+      },
+      {
+        name: 'Scheduled Event',
+        value: 'scheduledEvent',
+        description: 'When a scheduled event is created, updated or deleted, or a user shows interest in it',
+      },
+      {
+        name: 'Server Structure',
+        value: 'serverStructure',
+        description: 'When a channel or a role is created, updated or deleted in the selected servers',
+      },
+      {
+        name: 'Slash Command',
+        value: 'slashCommand',
+        description: 'When a user runs the slash command registered by this node',
+      },
+      {
+        name: 'Thread Created',
+        value: 'thread',
+        description: 'When a thread or a forum post is created in the selected channels',
+      },
+      {
+        name: 'Voice State',
+        value: 'voice',
+        description: 'When a member joins, leaves or moves between voice channels, mutes, deafens or streams',
+      },
     ],
     default: 'message',
     description: 'Type of event to listen to. User events must specify a channel to listen to if you want to use a placeholder or the option "send to the trigger channel" in a Discord Send node.',
   },
+  {
+    displayName: 'Message Source',
+    name: 'messageSource',
+    type: 'options',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+      },
+    },
+    options: [
+      {
+        name: 'Server Channels',
+        value: 'guild',
+        description: 'Messages sent in the channels of the servers the bot is in',
+      },
+      {
+        name: 'Direct Messages',
+        value: 'dm',
+        description: 'Private messages sent to the bot. Server, channel and role filters do not apply.',
+      },
+      {
+        name: 'Both',
+        value: 'both',
+        description: 'Messages from server channels and direct messages',
+      },
+    ],
+    default: 'guild',
+    description: 'Where the messages to listen to are sent',
+  },
   {
     displayName: 'Server Names or IDs',
     name: 'guildIds',
@@ -23,7 +137,7 @@ export const options: INodeProperties[] = [
     type: 'multiOptions',
     displayOptions: {
       show: {
-        type: ['message'],
+        type: ['message', 'messageUpdate', 'messageDelete', 'reaction', 'interaction', 'slashCommand', 'member', 'thread', 'voice', 'presence', 'moderation', 'modalSubmit', 'contextMenu', 'scheduledEvent', 'pollVote', 'invite', 'serverStructure'],
       },
     },
     typeOptions: {
@@ -43,11 +157,11 @@ export const options: INodeProperties[] = [
     },
     displayOptions: {
       show: {
-        type: ['message'],
+        type: ['message', 'messageUpdate', 'messageDelete', 'reaction', 'interaction', 'slashCommand', 'thread', 'modalSubmit', 'contextMenu', 'pollVote'],
       },
     },
     default: [],
-    description: 'Lets you select the text channels you want to listen to for triggering the workflow. If none selected, all channels will be listen to. Your credentials must be set and the bot running, you also need at least one text channel available. If you do not meet these requirements, make the changes then close and reopen the modal (the channels list is loaded when the modal opens). Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+    description: 'Lets you select the text and forum channels, or whole categories, you want to listen to for triggering the workflow. Threads and forum posts are listened to through their parent channel, and selecting a category includes every current and future channel under it. If none selected, all channels will be listen to. Your credentials must be set and the bot running, you also need at least one text channel available. If you do not meet these requirements, make the changes then close and reopen the modal (the channels list is loaded when the modal opens). Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
   },
   {
     displayName: 'Listen to Roles',
@@ -57,7 +171,7 @@ export const options: INodeProperties[] = [
     type: 'multiOptions',
     displayOptions: {
       show: {
-        type: ['message'],
+        type: ['message', 'messageUpdate', 'messageDelete', 'reaction', 'interaction', 'slashCommand', 'member', 'voice', 'presence', 'modalSubmit', 'contextMenu'],
       },
     },
     typeOptions: {
@@ -67,6 +181,64 @@ export const options: INodeProperties[] = [
     default: [],
     description: 'The same logic apply here for roles, except it is optional. If you don\'t select any role it will listen to @everyone. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
   },
+  {
+    displayName: 'Listen to Users',
+    name: 'userIds',
+    type: 'string',
+    placeholder: 'e.g. 123456789012345678,234567890123456789',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+      },
+    },
+    default: '',
+    description: 'Comma-separated list of user IDs allowed to trigger the workflow. If empty, every user can trigger it.',
+  },
+  {
+    displayName: 'Exclude Channel Names or IDs',
+    name: 'excludedChannelIds',
+    type: 'multiOptions',
+    typeOptions: {
+      loadOptionsDependsOn: ['guildIds'],
+      loadOptionsMethod: 'getChannels',
+    },
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+      },
+    },
+    default: [],
+    description: 'Channels or categories ignored by the trigger, including their threads, forum posts and the channels under them. Exclusions always take precedence over the channels listened to. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+  },
+  {
+    displayName: 'Exclude Role Names or IDs',
+    name: 'excludedRoleIds',
+    type: 'multiOptions',
+    typeOptions: {
+      loadOptionsDependsOn: ['guildIds'],
+      loadOptionsMethod: 'getRoles',
+    },
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+      },
+    },
+    default: [],
+    description: 'Members having any of these roles (e.g. Muted) never trigger the workflow, even if they also have a role listened to. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+  },
+  {
+    displayName: 'Exclude Users',
+    name: 'excludedUserIds',
+    type: 'string',
+    placeholder: 'e.g. 123456789012345678,234567890123456789',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+      },
+    },
+    default: '',
+    description: 'Comma-separated list of user IDs that never trigger the workflow, even if they are listened to',
+  },
   {
     displayName: 'Pattern',
     name: 'pattern',
@@ -74,7 +246,7 @@ export const options: INodeProperties[] = [
     type: 'options',
     displayOptions: {
       show: {
-        type: ['message'],
+        type: ['message', 'messageUpdate', 'messageDelete'],
       },
     },
     options: [
@@ -83,11 +255,21 @@ export const options: INodeProperties[] = [
         value: 'botMention',
         description: 'The bot has to be mentioned somewhere in the message in order to trigger',
       }, 
+      {
+        name: 'Command',
+        value: 'command',
+        description: 'Match a prefix command (e.g. "!ban @user 7 spamming") and parse its arguments',
+      },
       {
         name: 'Contains',
         value: 'contain',
         description: 'Match the value in any position in the message',
       },
+      {
+        name: 'Contains Attachment',
+        value: 'containAttachment',
+        description: 'Triggers when a message contains attachments matching the attachment filters below (e.g. voice notes or PDFs)',
+      },
       {
         name: 'Contains Image',
         value: 'containImage',
@@ -111,7 +293,7 @@ export const options: INodeProperties[] = [
       {
         name: 'Regex',
         value: 'regex',
-        description: 'Match the custom ECMAScript regex provided',
+        description: 'Match the custom ECMAScript regex provided. The match, its named capture groups and, with the global flag, every match are added to the output.',
       },
       {
         name: 'Starts With',
@@ -129,7 +311,7 @@ export const options: INodeProperties[] = [
     placeholder: 'e.g. !hello',
     displayOptions: {
       show: {
-        type: ['message'],
+        type: ['message', 'messageUpdate', 'messageDelete'],
         pattern: ['equal', 'start', 'contain', 'end', 'regex'],
       },
     },
@@ -137,13 +319,301 @@ export const options: INodeProperties[] = [
     default: '',
     description: 'The value you will test on all messages listened to',
   },
+  {
+    displayName: 'Command Prefix',
+    name: 'commandPrefix',
+    type: 'string',
+    placeholder: 'e.g. !',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['command'],
+      },
+    },
+    required: true,
+    default: '!',
+    description: 'Prefix the message has to start with, directly followed by the command name or one of its aliases',
+  },
+  {
+    displayName: 'Command Name',
+    name: 'prefixCommandName',
+    type: 'string',
+    placeholder: 'e.g. ban',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['command'],
+      },
+    },
+    required: true,
+    default: '',
+  },
+  {
+    displayName: 'Command Aliases',
+    name: 'commandAliases',
+    type: 'string',
+    placeholder: 'e.g. b,kickban',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['command'],
+      },
+    },
+    default: '',
+    description: 'Comma-separated list of other names the command can be called with',
+  },
+  {
+    displayName: 'Command Arguments',
+    name: 'commandArguments',
+    placeholder: 'Add Argument',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['command'],
+      },
+    },
+    default: {},
+    description: 'Arguments following the command name, in order. They are parsed into the "args" output field.',
+    options: [
+      {
+        name: 'argument',
+        displayName: 'Argument',
+        values: [
+          {
+            displayName: 'Name',
+            name: 'name',
+            type: 'string',
+            default: '',
+            description: 'Name of the argument in the "args" output field',
+          },
+          {
+            displayName: 'Type',
+            name: 'type',
+            type: 'options',
+            options: [
+              {
+                name: 'Channel Mention',
+                value: 'channel',
+                description: 'A channel mention or ID, output as the channel ID',
+              },
+              {
+                name: 'Number',
+                value: 'number',
+              },
+              {
+                name: 'Quoted String',
+                value: 'quoted',
+                description: 'A single word, or several words wrapped in double quotes',
+              },
+              {
+                name: 'Rest of Line',
+                value: 'rest',
+                description: 'Everything left in the message, must be the last argument',
+              },
+              {
+                name: 'Role Mention',
+                value: 'role',
+                description: 'A role mention or ID, output as the role ID',
+              },
+              {
+                name: 'String',
+                value: 'string',
+                description: 'A single word',
+              },
+              {
+                name: 'User Mention',
+                value: 'user',
+                description: 'A user mention or ID, output as the user ID',
+              },
+            ],
+            default: 'string',
+          },
+          {
+            displayName: 'Required',
+            name: 'required',
+            type: 'boolean',
+            default: true,
+            description: 'Whether the command fails when the argument is missing',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    displayName: 'Reply With Usage on Error',
+    name: 'replyWithUsage',
+    type: 'boolean',
+    displayOptions: {
+      show: {
+        type: ['message'],
+        pattern: ['command'],
+      },
+    },
+    default: true,
+    description: 'Whether the bot replies with the usage of the command when its arguments cannot be parsed. The workflow is not triggered in that case.',
+  },
+  {
+    displayName: 'Attachment Categories',
+    name: 'attachmentCategories',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['containAttachment'],
+      },
+    },
+    options: [
+      {
+        name: 'Archive',
+        value: 'archive',
+        description: 'Zip, rar, 7z, tar and gzip files',
+      },
+      {
+        name: 'Audio',
+        value: 'audio',
+        description: 'Audio files, including voice messages',
+      },
+      {
+        name: 'Document',
+        value: 'document',
+        description: 'PDF, office, text and data files',
+      },
+      {
+        name: 'Image',
+        value: 'image',
+      },
+      {
+        name: 'Video',
+        value: 'video',
+      },
+    ],
+    default: [],
+    description: 'Only count attachments of these categories. If empty, every category is counted.',
+  },
+  {
+    displayName: 'Attachment Extensions',
+    name: 'attachmentExtensions',
+    type: 'string',
+    placeholder: 'e.g. pdf,docx',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['containAttachment'],
+      },
+    },
+    default: '',
+    description: 'Comma-separated list of file extensions to count. If empty, every extension is counted.',
+  },
+  {
+    displayName: 'Min Attachment Size (KB)',
+    name: 'attachmentMinSize',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['containAttachment'],
+      },
+    },
+    default: 0,
+    description: 'Only count attachments of at least this size. 0 means no minimum.',
+  },
+  {
+    displayName: 'Max Attachment Size (KB)',
+    name: 'attachmentMaxSize',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['containAttachment'],
+      },
+    },
+    default: 0,
+    description: 'Only count attachments of at most this size. 0 means no maximum.',
+  },
+  {
+    displayName: 'Min Attachment Count',
+    name: 'attachmentMinCount',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['containAttachment'],
+      },
+    },
+    default: 1,
+    description: 'Minimum number of matching attachments the message must contain',
+  },
+  {
+    displayName: 'Max Attachment Count',
+    name: 'attachmentMaxCount',
+    type: 'number',
+    typeOptions: {
+      minValue: 0,
+    },
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['containAttachment'],
+      },
+    },
+    default: 0,
+    description: 'Maximum number of matching attachments the message can contain. 0 means no maximum.',
+  },
+  {
+    displayName: 'Regex Flags',
+    name: 'regexFlags',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['message', 'messageUpdate', 'messageDelete'],
+        pattern: ['regex'],
+      },
+    },
+    options: [
+      {
+        name: 'Dot All (S)',
+        value: 's',
+        description: '"." also matches line breaks',
+      },
+      {
+        name: 'Global (G)',
+        value: 'g',
+        description: 'Find every match of the regex in the message instead of only the first one',
+      },
+      {
+        name: 'Multiline (M)',
+        value: 'm',
+        description: '"^" and "$" match at the start and end of every line instead of the whole message',
+      },
+      {
+        name: 'Unicode (U)',
+        value: 'u',
+        description: 'Treat the regex as a sequence of Unicode code points, e.g. to use \\p{...} classes',
+      },
+    ],
+    default: [],
+    description: 'Flags applied to the regex. Use the Case Sensitive option below for the "i" flag.',
+  },
   {
     displayName: 'Case Sensitive',
     name: 'caseSensitive',
     type: 'boolean',
     displayOptions: {
       show: {
-        type: ['message'],
+        type: ['message', 'messageUpdate', 'messageDelete'],
       },
     },
 
@@ -164,17 +634,890 @@ export const options: INodeProperties[] = [
     description: 'Whether the trigger activates only when the user replies to a message. The replied-to message will be included.',
   },
   {
-    displayName: 'Message ID',
-    name: 'interactionMessageId',
-    type: 'string',
+    displayName: 'Filter Rules',
+    name: 'filterRules',
+    placeholder: 'Add Rule',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
     displayOptions: {
       show: {
-        type: ['interaction'],
+        type: ['message', 'messageUpdate', 'messageDelete'],
       },
     },
-    required: true,
-    default: '',
-    description: 'The message ID of the button/select to listen to',
+    default: {},
+    description: 'Additional conditions the message must meet, on top of the pattern above. Rules sharing the same group are combined with OR, and the groups are combined with AND. For example "in #support AND (mentions the bot OR starts with !help) AND NOT from role Staff" uses three groups: a channel rule, a group with the bot mention and starts with rules, and a negated role rule.',
+    options: [
+      {
+        name: 'rule',
+        displayName: 'Rule',
+        values: [
+          {
+            displayName: 'Group',
+            name: 'group',
+            type: 'string',
+            default: 'main',
+            description: 'Name of the group of the rule. Rules of the same group are combined with OR.',
+          },
+          {
+            displayName: 'Condition',
+            name: 'condition',
+            type: 'options',
+            options: [
+              {
+                name: 'Author Is One Of',
+                value: 'authorIds',
+              },
+              {
+                name: 'Content Contains',
+                value: 'contentContains',
+              },
+              {
+                name: 'Content Ends With',
+                value: 'contentEndsWith',
+              },
+              {
+                name: 'Content Equals',
+                value: 'contentEquals',
+              },
+              {
+                name: 'Content Matches Regex',
+                value: 'contentRegex',
+              },
+              {
+                name: 'Content Starts With',
+                value: 'contentStartsWith',
+              },
+              {
+                name: 'Has Attachment',
+                value: 'hasAttachment',
+              },
+              {
+                name: 'In Channel',
+                value: 'channelIds',
+              },
+              {
+                name: 'Mentions Bot',
+                value: 'mentionsBot',
+              },
+              {
+                name: 'Replies to Bot',
+                value: 'replyToBot',
+              },
+              {
+                name: 'Sent by Role',
+                value: 'roleIds',
+              },
+            ],
+            default: 'contentStartsWith',
+          },
+          {
+            displayName: 'Value',
+            name: 'value',
+            type: 'string',
+            displayOptions: {
+              hide: {
+                condition: ['hasAttachment', 'mentionsBot', 'replyToBot'],
+              },
+            },
+            default: '',
+            description: 'The value to test. For authors, channels and roles, a comma-separated list of IDs.',
+          },
+          {
+            displayName: 'Negate',
+            name: 'negate',
+            type: 'boolean',
+            default: false,
+            description: 'Whether the rule matches when the condition is NOT met',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    displayName: 'Aggregate Message Bursts',
+    name: 'aggregateMessages',
+    type: 'boolean',
+    displayOptions: {
+      show: {
+        type: ['message'],
+      },
+    },
+    default: false,
+    description: 'Whether consecutive matching messages of the same author in the same channel are buffered and trigger the workflow once, with the concatenated content, all the attachments and the list of message IDs',
+  },
+  {
+    displayName: 'Quiet Period (Seconds)',
+    name: 'aggregationDelay',
+    type: 'number',
+    typeOptions: {
+      minValue: 1,
+    },
+    displayOptions: {
+      show: {
+        type: ['message'],
+        aggregateMessages: [true],
+      },
+    },
+    default: 4,
+    description: 'How long the author has to stay silent before the buffered messages trigger the workflow. A burst triggers anyway once it reaches 20 messages or lasts one minute.',
+  },
+  {
+    displayName: 'Rate Limits',
+    name: 'rateLimits',
+    placeholder: 'Add Limit',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        type: ['message'],
+      },
+    },
+    default: {},
+    description: 'Limit how often the workflow can be triggered, e.g. once per user every 30 seconds. Every limit has to be respected for the workflow to be triggered.',
+    options: [
+      {
+        name: 'limit',
+        displayName: 'Limit',
+        values: [
+          {
+            displayName: 'Scope',
+            name: 'scope',
+            type: 'options',
+            options: [
+              {
+                name: 'Per User',
+                value: 'user',
+              },
+              {
+                name: 'Per Channel',
+                value: 'channel',
+              },
+              {
+                name: 'Global',
+                value: 'global',
+              },
+            ],
+            default: 'user',
+          },
+          {
+            displayName: 'Max Triggers',
+            name: 'maxTriggers',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 1,
+          },
+          {
+            displayName: 'Interval (Seconds)',
+            name: 'interval',
+            type: 'number',
+            typeOptions: {
+              minValue: 1,
+            },
+            default: 30,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    displayName: 'Throttled Response',
+    name: 'throttledResponse',
+    type: 'options',
+    displayOptions: {
+      show: {
+        type: ['message'],
+      },
+    },
+    options: [
+      {
+        name: 'Ignore',
+        value: 'ignore',
+        description: 'Silently ignore the message',
+      },
+      {
+        name: 'React',
+        value: 'react',
+        description: 'React to the message with ⏳',
+      },
+      {
+        name: 'Reply',
+        value: 'reply',
+        description: 'Reply to the message with the text below',
+      },
+    ],
+    default: 'ignore',
+    description: 'What the bot does when a message is not triggering the workflow because of a rate limit',
+  },
+  {
+    displayName: 'Throttled Message',
+    name: 'throttledMessage',
+    type: 'string',
+    displayOptions: {
+      show: {
+        type: ['message'],
+        throttledResponse: ['reply'],
+      },
+    },
+    default: 'You are going too fast, please try again in {seconds} seconds.',
+    description: 'Reply sent when the message is throttled. {seconds} is replaced by the number of seconds to wait.',
+  },
+  {
+    displayName: 'Reaction Events',
+    name: 'reactionEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['reaction'],
+      },
+    },
+    options: [
+      {
+        name: 'Reaction Added',
+        value: 'add',
+      },
+      {
+        name: 'Reaction Removed',
+        value: 'remove',
+      },
+    ],
+    default: ['add', 'remove'],
+    description: 'Whether the trigger fires when a reaction is added, removed, or both',
+  },
+  {
+    displayName: 'Emojis',
+    name: 'emojis',
+    type: 'string',
+    placeholder: 'e.g. 👍,✅,party_parrot,123456789012345678',
+    displayOptions: {
+      show: {
+        type: ['reaction'],
+      },
+    },
+    default: '',
+    description: 'Comma-separated list of emojis to listen to. Use the unicode character for standard emojis, and the name, the ID or the &lt;:name:ID&gt; form for custom emojis. If empty, every emoji will trigger.',
+  },
+  {
+    displayName: 'Message IDs',
+    name: 'reactionMessageIds',
+    type: 'string',
+    placeholder: 'e.g. 123456789012345678',
+    displayOptions: {
+      show: {
+        type: ['reaction'],
+      },
+    },
+    default: '',
+    description: 'Comma-separated list of message IDs to listen to. If empty, reactions on every message will trigger.',
+  },
+  {
+    displayName: 'Member Events',
+    name: 'memberEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['member'],
+      },
+    },
+    options: [
+      {
+        name: 'Member Joined',
+        value: 'join',
+        description: 'Includes the invite used to join when it can be determined',
+      },
+      {
+        name: 'Member Left',
+        value: 'leave',
+      },
+      {
+        name: 'Member Updated',
+        value: 'update',
+        description: 'Roles, nickname, membership screening or timeout changed',
+      },
+    ],
+    default: ['join', 'leave', 'update'],
+    description: 'Which member events will trigger the workflow',
+  },
+  {
+    displayName: 'Forum Tags',
+    name: 'forumTags',
+    type: 'string',
+    placeholder: 'e.g. bug,question',
+    displayOptions: {
+      show: {
+        type: ['thread'],
+      },
+    },
+    default: '',
+    description: 'Comma-separated list of forum tag names or IDs. Only forum posts with at least one of these tags will trigger. If empty, every thread will trigger.',
+  },
+  {
+    displayName: 'Voice Events',
+    name: 'voiceEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['voice'],
+      },
+    },
+    options: [
+      {
+        name: 'Deafen',
+        value: 'deafen',
+      },
+      {
+        name: 'Join',
+        value: 'join',
+      },
+      {
+        name: 'Leave',
+        value: 'leave',
+      },
+      {
+        name: 'Move',
+        value: 'move',
+        description: 'Member switched from one voice channel to another',
+      },
+      {
+        name: 'Mute',
+        value: 'mute',
+      },
+      {
+        name: 'Stream Start',
+        value: 'streamStart',
+      },
+      {
+        name: 'Stream Stop',
+        value: 'streamStop',
+      },
+      {
+        name: 'Undeafen',
+        value: 'undeafen',
+      },
+      {
+        name: 'Unmute',
+        value: 'unmute',
+      },
+    ],
+    default: ['join', 'leave', 'move'],
+    description: 'Which voice state changes will trigger the workflow. Mute and deafen include both self and server mute or deafen.',
+  },
+  {
+    displayName: 'Listen To Voice Channels',
+    name: 'voiceChannelIds',
+    placeholder: 'e.g. my-voice-channel',
+    type: 'multiOptions',
+    typeOptions: {
+      loadOptionsDependsOn: ['guildIds'],
+      loadOptionsMethod: 'getVoiceChannels',
+    },
+    displayOptions: {
+      show: {
+        type: ['voice'],
+      },
+    },
+    default: [],
+    description: 'Lets you select the voice channels you want to listen to, before or after the change. If none selected, all voice channels will be listen to. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+  },
+  {
+    displayName: 'From Statuses',
+    name: 'fromStatuses',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['presence'],
+      },
+    },
+    options: [
+      {
+        name: 'Do Not Disturb',
+        value: 'dnd',
+      },
+      {
+        name: 'Idle',
+        value: 'idle',
+      },
+      {
+        name: 'Offline',
+        value: 'offline',
+      },
+      {
+        name: 'Online',
+        value: 'online',
+      },
+    ],
+    default: [],
+    description: 'Only trigger when the member was in one of these statuses before the change. If none selected, any previous status will trigger. Ignored when an activity filter is set.',
+  },
+  {
+    displayName: 'To Statuses',
+    name: 'toStatuses',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['presence'],
+      },
+    },
+    options: [
+      {
+        name: 'Do Not Disturb',
+        value: 'dnd',
+      },
+      {
+        name: 'Idle',
+        value: 'idle',
+      },
+      {
+        name: 'Offline',
+        value: 'offline',
+      },
+      {
+        name: 'Online',
+        value: 'online',
+      },
+    ],
+    default: [],
+    description: 'Only trigger when the member is in one of these statuses after the change. If none selected, any new status will trigger.',
+  },
+  {
+    displayName: 'Activity Types',
+    name: 'activityTypes',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['presence'],
+      },
+    },
+    options: [
+      {
+        name: 'Competing',
+        value: 'Competing',
+      },
+      {
+        name: 'Custom Status',
+        value: 'Custom',
+      },
+      {
+        name: 'Listening',
+        value: 'Listening',
+      },
+      {
+        name: 'Playing',
+        value: 'Playing',
+      },
+      {
+        name: 'Streaming',
+        value: 'Streaming',
+      },
+      {
+        name: 'Watching',
+        value: 'Watching',
+      },
+    ],
+    default: [],
+    description: 'When set, the trigger fires when the member starts an activity of one of these types instead of on status changes',
+  },
+  {
+    displayName: 'Activity Name',
+    name: 'activityName',
+    type: 'string',
+    placeholder: 'e.g. Minecraft',
+    displayOptions: {
+      show: {
+        type: ['presence'],
+      },
+    },
+    default: '',
+    description: 'When set, the trigger fires when the member starts an activity whose name contains this value (case insensitive) instead of on status changes',
+  },
+  {
+    displayName: 'Moderation Events',
+    name: 'moderationEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['moderation'],
+      },
+    },
+    options: [
+      {
+        name: 'User Banned',
+        value: 'ban',
+      },
+      {
+        name: 'User Unbanned',
+        value: 'unban',
+      },
+    ],
+    default: ['ban', 'unban'],
+    description: 'Which moderation events will trigger the workflow',
+  },
+  {
+    displayName: 'Include Moderator',
+    name: 'includeExecutor',
+    type: 'boolean',
+    displayOptions: {
+      show: {
+        type: ['moderation'],
+      },
+    },
+    default: false,
+    description: 'Whether to look up the moderator who performed the action in the audit log. The bot needs the "View Audit Log" permission.',
+  },
+  {
+    displayName: 'Server Events',
+    name: 'guildEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['guild'],
+      },
+    },
+    options: [
+      {
+        name: 'Bot Added to Server',
+        value: 'added',
+      },
+      {
+        name: 'Bot Removed From Server',
+        value: 'removed',
+      },
+    ],
+    default: ['added', 'removed'],
+    description: 'Which server events will trigger the workflow',
+  },
+  {
+    displayName: 'Scheduled Event Events',
+    name: 'scheduledEventEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['scheduledEvent'],
+      },
+    },
+    options: [
+      {
+        name: 'Event Created',
+        value: 'create',
+      },
+      {
+        name: 'Event Deleted',
+        value: 'delete',
+      },
+      {
+        name: 'Event Updated',
+        value: 'update',
+        description: 'Including status transitions, for example when the event starts or ends',
+      },
+      {
+        name: 'User Interested',
+        value: 'userAdd',
+      },
+      {
+        name: 'User No Longer Interested',
+        value: 'userRemove',
+      },
+    ],
+    default: ['create', 'update', 'delete'],
+    description: 'Which scheduled event changes will trigger the workflow',
+  },
+  {
+    displayName: 'Poll Vote Events',
+    name: 'pollVoteEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['pollVote'],
+      },
+    },
+    options: [
+      {
+        name: 'Vote Added',
+        value: 'add',
+      },
+      {
+        name: 'Vote Removed',
+        value: 'remove',
+      },
+    ],
+    default: ['add', 'remove'],
+    description: 'Whether the trigger fires when a vote is added, removed, or both',
+  },
+  {
+    displayName: 'Poll Message IDs',
+    name: 'pollMessageIds',
+    type: 'string',
+    placeholder: 'e.g. 123456789012345678',
+    displayOptions: {
+      show: {
+        type: ['pollVote'],
+      },
+    },
+    default: '',
+    description: 'Comma-separated list of IDs of the messages holding the polls to listen to. If empty, votes on every poll will trigger.',
+  },
+  {
+    displayName: 'Invite Events',
+    name: 'inviteEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['invite'],
+      },
+    },
+    options: [
+      {
+        name: 'Invite Created',
+        value: 'create',
+      },
+      {
+        name: 'Invite Deleted',
+        value: 'delete',
+      },
+      {
+        name: 'Invite Used',
+        value: 'use',
+        description: 'A new member joined through an invite',
+      },
+    ],
+    default: ['create', 'delete', 'use'],
+    description: 'Which invite events will trigger the workflow. The bot needs the "Manage Server" permission to know which invite a new member used.',
+  },
+  {
+    displayName: 'Server Structure Events',
+    name: 'structureEvents',
+    type: 'multiOptions',
+    displayOptions: {
+      show: {
+        type: ['serverStructure'],
+      },
+    },
+    options: [
+      {
+        name: 'Channel Created',
+        value: 'channelCreate',
+      },
+      {
+        name: 'Channel Deleted',
+        value: 'channelDelete',
+      },
+      {
+        name: 'Channel Updated',
+        value: 'channelUpdate',
+        description: 'Name, permission overwrites, position or parent category changed',
+      },
+      {
+        name: 'Role Created',
+        value: 'roleCreate',
+      },
+      {
+        name: 'Role Deleted',
+        value: 'roleDelete',
+      },
+      {
+        name: 'Role Updated',
+        value: 'roleUpdate',
+        description: 'Name, permissions, position, color or display settings changed',
+      },
+    ],
+    default: ['channelCreate', 'channelUpdate', 'channelDelete', 'roleCreate', 'roleUpdate', 'roleDelete'],
+    description: 'Which channel and role changes will trigger the workflow',
+  },
+  {
+    displayName: 'Message ID',
+    name: 'interactionMessageId',
+    type: 'string',
+    displayOptions: {
+      show: {
+        type: ['interaction'],
+      },
+    },
+    default: '',
+    description: 'The message ID of the button/select to listen to. If empty, components of every message will trigger.',
+  },
+  {
+    displayName: 'Custom ID Prefix',
+    name: 'customIdPrefix',
+    type: 'string',
+    placeholder: 'e.g. approve_',
+    displayOptions: {
+      show: {
+        type: ['interaction', 'modalSubmit'],
+      },
+    },
+    default: '',
+    description: 'Only trigger for components or modals whose custom ID starts with this value. If empty, every component or modal will trigger.',
+  },
+  {
+    displayName: 'Command Name',
+    name: 'commandName',
+    type: 'string',
+    placeholder: 'e.g. ticket',
+    displayOptions: {
+      show: {
+        type: ['slashCommand'],
+      },
+    },
+    required: true,
+    default: '',
+    description: 'Name of the slash command, lowercase and without spaces (1-32 characters). The command is registered in the selected servers when the workflow is activated, or globally if no server is selected.',
+  },
+  {
+    displayName: 'Command Description',
+    name: 'commandDescription',
+    type: 'string',
+    placeholder: 'e.g. Open a support ticket',
+    displayOptions: {
+      show: {
+        type: ['slashCommand'],
+      },
+    },
+    required: true,
+    default: '',
+    description: 'Description of the slash command shown to users (1-100 characters)',
+  },
+  {
+    displayName: 'Command Options',
+    name: 'commandOptions',
+    placeholder: 'Add Option',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    displayOptions: {
+      show: {
+        type: ['slashCommand'],
+      },
+    },
+    default: {},
+    description: 'Options the user can fill when running the command',
+    options: [
+      {
+        name: 'option',
+        displayName: 'Option',
+        values: [
+          {
+            displayName: 'Name',
+            name: 'name',
+            type: 'string',
+            default: '',
+            description: 'Name of the option, lowercase and without spaces',
+          },
+          {
+            displayName: 'Description',
+            name: 'description',
+            type: 'string',
+            default: '',
+          },
+          {
+            displayName: 'Type',
+            name: 'type',
+            type: 'options',
+            options: [
+              {
+                name: 'Attachment',
+                value: 'attachment',
+              },
+              {
+                name: 'Boolean',
+                value: 'boolean',
+              },
+              {
+                name: 'Channel',
+                value: 'channel',
+              },
+              {
+                name: 'Integer',
+                value: 'integer',
+              },
+              {
+                name: 'Role',
+                value: 'role',
+              },
+              {
+                name: 'String',
+                value: 'string',
+              },
+              {
+                name: 'User',
+                value: 'user',
+              },
+            ],
+            default: 'string',
+          },
+          {
+            displayName: 'Required',
+            name: 'required',
+            type: 'boolean',
+            default: false,
+            description: 'Whether the user has to fill this option',
+          },
+          {
+            displayName: 'Choices',
+            name: 'choices',
+            type: 'string',
+            placeholder: 'e.g. Low=low,Medium=medium,High=high',
+            default: '',
+            description: 'Comma-separated list of allowed values for string and integer options, optionally as Name=value pairs. If empty, any value is allowed.',
+          },
+        ],
+      },
+    ],
+  },
+  {
+    displayName: 'Context Menu Type',
+    name: 'contextMenuType',
+    type: 'options',
+    displayOptions: {
+      show: {
+        type: ['contextMenu'],
+      },
+    },
+    options: [
+      {
+        name: 'Message',
+        value: 'message',
+        description: 'The command appears in the Apps menu of messages',
+      },
+      {
+        name: 'User',
+        value: 'user',
+        description: 'The command appears in the Apps menu of users',
+      },
+    ],
+    default: 'message',
+    description: 'Where the command appears in Discord',
+  },
+  {
+    displayName: 'Context Menu Name',
+    name: 'contextMenuName',
+    type: 'string',
+    placeholder: 'e.g. Summarize this message',
+    displayOptions: {
+      show: {
+        type: ['contextMenu'],
+      },
+    },
+    required: true,
+    default: '',
+    description: 'Name of the command shown in the Apps menu (1-32 characters). The command is registered in the selected servers when the workflow is activated, or globally if no server is selected.',
+  },
+  {
+    displayName: 'Auto Acknowledge',
+    name: 'autoAcknowledge',
+    type: 'boolean',
+    displayOptions: {
+      show: {
+        type: ['interaction', 'slashCommand', 'modalSubmit', 'contextMenu'],
+      },
+    },
+    default: true,
+    description: 'Whether the bot acknowledges the interaction right away so Discord does not show "This interaction failed" (deferred update for components and modals opened from a message, deferred reply for commands and other modals). Disable it if the workflow replies to the interaction itself within 3 seconds.',
   },
   {
     displayName: 'Placeholder',
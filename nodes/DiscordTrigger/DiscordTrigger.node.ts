@@ -9,7 +9,7 @@ import {
 } from 'n8n-workflow';
 import { options } from './DiscordTrigger.node.options';
 import bot from '../bot';
-import { detectMimeTypeFromFilename } from '../helper';
+import { detectMimeTypeFromFilename, getAttachmentCategory } from '../helper';
 import {
     connection,
     ICredentials,
@@ -68,12 +68,27 @@ export class DiscordTrigger implements INodeType {
                         throw new NodeOperationError(this.getNode(), 'Please select at least one server before choosing channels.');
                     }
 
-                    return await getChannelsHelper(this, selectedGuilds);
+                    return await getChannelsHelper(this, selectedGuilds, 'textAndCategories');
                 } catch (error) {
                     console.error('Error loading channels:', error);
                     return [{ name: `Error: ${error.message}`, value: 'false' }];
                 }
             },
+            async getVoiceChannels(): Promise<INodePropertyOptions[]> {
+                try {
+                    // @ts-ignore
+                    const selectedGuilds = this.getNodeParameter('guildIds', []);
+                    if (!selectedGuilds.length) {
+                        // @ts-ignore
+                        throw new NodeOperationError(this.getNode(), 'Please select at least one server before choosing voice channels.');
+                    }
+
+                    return await getChannelsHelper(this, selectedGuilds, 'voice');
+                } catch (error) {
+                    console.error('Error loading voice channels:', error);
+                    return [{ name: `Error: ${error.message}`, value: 'false' }];
+                }
+            },
             async getRoles(): Promise<INodePropertyOptions[]> {
                 try {
                     // @ts-ignore
@@ -152,6 +167,85 @@ export class DiscordTrigger implements INodeType {
 
                     console.log(`Successfully registered trigger node ${nodeId}`);
 
+                    // Function to format a Discord message for workflow execution
+                    const formatMessage = (message: any) => {
+                        const { author, messageReference, referenceAuthor } = message.message;
+
+                        // Check if any attachments are images
+                        const messageData = message.message;
+                        const attachments = messageData.attachments ? Array.from(messageData.attachments.values()) : [];
+
+                        const imageAttachments = attachments.filter((attachment: any) =>
+                            getAttachmentCategory(attachment.contentType, attachment.name) === 'image'
+                        );
+
+                        // Format image data for AI services
+                        const geminiReadyImages = imageAttachments.map((attachment: any) => ({
+                            url: attachment.url,
+                            mimeType: attachment.contentType || detectMimeTypeFromFilename(attachment.name),
+                            width: attachment.width,
+                            height: attachment.height,
+                            size: attachment.size
+                        }));
+
+                        // Prepare message data for workflow execution
+                        const messageCreateOptions = {
+                            id: messageData.id,
+                            messageIds: messageData.messageIds ?? [messageData.id],
+                            content: messageData.content,
+                            processedContent: messageData.processedContent || messageData.content,
+                            command: messageData.command?.name ?? null,
+                            args: messageData.command?.args ?? null,
+                            match: messageData.regexMatch?.match ?? null,
+                            groups: messageData.regexMatch?.groups ?? null,
+                            matches: messageData.regexMatch?.matches ?? null,
+                            channelId: messageData.channelId,
+                            guildId: messageData.guildId ?? null,
+                            isDM: !messageData.guildId,
+                            authorId: author.id,
+                            authorName: author.username,
+                            timestamp: messageData.createdTimestamp,
+                            listenValue: self.getNodeParameter('value', ''),
+                            authorIsBot: author.bot || author.system,
+                            referenceId: null,
+                            referenceContent: null,
+                            referenceAuthorId: null,
+                            referenceAuthorName: null,
+                            referenceTimestamp: null,
+                            hasAttachments: attachments.length > 0,
+                            attachments: attachments.map((attachment: any) => ({
+                                id: attachment.id,
+                                url: attachment.url,
+                                proxyUrl: attachment.proxyURL,
+                                filename: attachment.name,
+                                contentType: attachment.contentType,
+                                category: getAttachmentCategory(attachment.contentType, attachment.name),
+                                size: attachment.size,
+                                width: attachment.width,
+                                height: attachment.height,
+                                description: attachment.description,
+                                ephemeral: attachment.ephemeral,
+                            })),
+                            hasImages: imageAttachments.length > 0,
+                            imageCount: imageAttachments.length,
+                            geminiImages: geminiReadyImages,
+                            geminiPromptTemplate: imageAttachments.length > 0 ?
+                                "Analyze this image and describe what you see in detail." :
+                                "No images attached to analyze."
+                        };
+
+                        // Add reference message data if present
+                        if (messageReference) {
+                            messageCreateOptions.referenceId = messageReference.id;
+                            messageCreateOptions.referenceContent = messageReference.content;
+                            messageCreateOptions.referenceAuthorId = referenceAuthor.id;
+                            messageCreateOptions.referenceAuthorName = referenceAuthor.username;
+                            messageCreateOptions.referenceTimestamp = messageReference.createdTimestamp;
+                        }
+
+                        return messageCreateOptions;
+                    };
+
                     // Function to process incoming messages
                     const processMessage = async (message: any) => {
                         try {
@@ -160,86 +254,12 @@ export class DiscordTrigger implements INodeType {
 
                             console.log(`Processing message for node ${nodeId}`);
 
-                            const { author, messageReference, referenceAuthor } = message.message;
-
-                            // Check if any attachments are images
-                            const messageData = message.message;
-                            const attachments = messageData.attachments ? Array.from(messageData.attachments.values()) : [];
-
-                            const imageAttachments = attachments.filter((attachment: any) => {
-                                const contentType = attachment.contentType?.toLowerCase() || '';
-                                // First check by content type
-                                if (contentType.startsWith('image/')) {
-                                    return true;
-                                }
-
-                                // If content type is missing or unknown, check file extension
-                                if (!contentType && attachment.name) {
-                                    const extension = attachment.name.split('.').pop()?.toLowerCase();
-                                    return ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'tiff'].includes(extension || '');
-                                }
-
-                                return false;
-                            });
-
-                            // Format image data for AI services
-                            const geminiReadyImages = imageAttachments.map((attachment: any) => ({
-                                url: attachment.url,
-                                mimeType: attachment.contentType || detectMimeTypeFromFilename(attachment.name),
-                                width: attachment.width,
-                                height: attachment.height,
-                                size: attachment.size
-                            }));
-
-                            // Prepare message data for workflow execution
-                            const messageCreateOptions = {
-                                id: messageData.id,
-                                content: messageData.content,
-                                processedContent: messageData.processedContent || messageData.content,
-                                channelId: messageData.channelId,
-                                authorId: author.id,
-                                authorName: author.username,
-                                timestamp: messageData.createdTimestamp,
-                                listenValue: self.getNodeParameter('value', ''),
-                                authorIsBot: author.bot || author.system,
-                                referenceId: null,
-                                referenceContent: null,
-                                referenceAuthorId: null,
-                                referenceAuthorName: null,
-                                referenceTimestamp: null,
-                                hasAttachments: attachments.length > 0,
-                                attachments: attachments.map((attachment: any) => ({
-                                    id: attachment.id,
-                                    url: attachment.url,
-                                    proxyUrl: attachment.proxyURL,
-                                    filename: attachment.name,
-                                    contentType: attachment.contentType,
-                                    size: attachment.size,
-                                    width: attachment.width,
-                                    height: attachment.height,
-                                    description: attachment.description,
-                                    ephemeral: attachment.ephemeral,
-                                })),
-                                hasImages: imageAttachments.length > 0,
-                                imageCount: imageAttachments.length,
-                                geminiImages: geminiReadyImages,
-                                geminiPromptTemplate: imageAttachments.length > 0 ?
-                                    "Analyze this image and describe what you see in detail." :
-                                    "No images attached to analyze."
-                            };
-
-                            // Add reference message data if present
-                            if (messageReference) {
-                                messageCreateOptions.referenceId = messageReference.id;
-                                messageCreateOptions.referenceContent = messageReference.content;
-                                messageCreateOptions.referenceAuthorId = referenceAuthor.id;
-                                messageCreateOptions.referenceAuthorName = referenceAuthor.username;
-                                messageCreateOptions.referenceTimestamp = messageReference.createdTimestamp;
-                            }
+                            // Events other than messages are already formatted by the bot
+                            const outputData = message.data ?? formatMessage(message);
 
                             // Emit message data to trigger workflow execution
                             self.emit([
-                                self.helpers.returnJsonArray(messageCreateOptions),
+                                self.helpers.returnJsonArray(outputData),
                             ]);
 
                             // Clean up placeholder when workflow execution finishes
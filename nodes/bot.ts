@@ -9,12 +9,56 @@ import {
     ButtonBuilder,
     ButtonStyle,
     ButtonInteraction,
-    Collection
+    Collection,
+    Attachment,
+    Channel,
+    Partials,
+    MessageReaction,
+    PartialMessageReaction,
+    User,
+    PartialUser,
+    Interaction,
+    BaseInteraction,
+    MessageComponentInteraction,
+    ComponentType,
+    PartialMessage,
+    ChatInputCommandInteraction,
+    CommandInteractionOption,
+    ApplicationCommandOptionType,
+    ApplicationCommandType,
+    Routes,
+    REST,
+    GuildMember,
+    PartialGuildMember,
+    AnyThreadChannel,
+    ForumChannel,
+    VoiceState,
+    Presence,
+    Activity,
+    ActivityType,
+    GuildBan,
+    AuditLogEvent,
+    Guild,
+    ModalSubmitInteraction,
+    ContextMenuCommandInteraction,
+    GuildScheduledEvent,
+    PartialGuildScheduledEvent,
+    GuildScheduledEventStatus,
+    GuildScheduledEventEntityType,
+    PollAnswer,
+    PartialPollAnswer,
+    Invite,
+    GuildChannel,
+    Role,
+    DMChannel,
+    NonThreadGuildBasedChannel,
+    OverwriteType,
 } from 'discord.js';
 
 import ipc from 'node-ipc';
 import {
     ICredentials,
+    getAttachmentCategory,
 } from './helper';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -47,6 +91,24 @@ declare global {
     var __n8nDiscordServerStarted: boolean;
 }
 
+// Result of a prefix command parsed from a message
+interface IParsedCommand {
+    prefix: string;
+    name: string;
+    invokedWith: string;
+    args: { [name: string]: string | number | null };
+    rawArgs: string;
+}
+
+// Result of a custom regex matched against a message
+// Capture groups that did not participate in the match are null
+interface IRegexMatch {
+    match: (string | null)[];
+    groups: { [name: string]: string | null } | null;
+    index: number;
+    matches: { match: (string | null)[]; groups: { [name: string]: string | null } | null; index: number }[] | null;
+}
+
 // Define types for the settings objects to improve type safety
 interface ITriggerNode {
     node: INode;
@@ -63,10 +125,87 @@ interface ITriggerNode {
         pattern?: string;
         value?: string;
         caseSensitive?: boolean;
+        regexFlags?: string[];
         guildIds?: string[];
         roleIds?: string[];
         channelIds?: string[];
         messageReferenceRequired?: boolean;
+        userIds?: string;
+        excludedUserIds?: string;
+        excludedChannelIds?: string[];
+        excludedRoleIds?: string[];
+        messageSource?: string;
+        attachmentCategories?: string[];
+        attachmentExtensions?: string;
+        attachmentMinSize?: number;
+        attachmentMaxSize?: number;
+        attachmentMinCount?: number;
+        attachmentMaxCount?: number;
+        commandPrefix?: string;
+        prefixCommandName?: string;
+        commandAliases?: string;
+        commandArguments?: {
+            argument?: {
+                name: string;
+                type: string;
+                required: boolean;
+            }[];
+        };
+        replyWithUsage?: boolean;
+        aggregateMessages?: boolean;
+        aggregationDelay?: number;
+        rateLimits?: {
+            limit?: {
+                scope: string;
+                maxTriggers: number;
+                interval: number;
+            }[];
+        };
+        throttledResponse?: string;
+        throttledMessage?: string;
+        filterRules?: {
+            rule?: {
+                group: string;
+                condition: string;
+                value: string;
+                negate: boolean;
+            }[];
+        };
+        reactionEvents?: string[];
+        emojis?: string;
+        reactionMessageIds?: string;
+        interactionMessageId?: string;
+        customIdPrefix?: string;
+        autoAcknowledge?: boolean;
+        memberEvents?: string[];
+        forumTags?: string;
+        voiceEvents?: string[];
+        voiceChannelIds?: string[];
+        fromStatuses?: string[];
+        toStatuses?: string[];
+        activityTypes?: string[];
+        activityName?: string;
+        moderationEvents?: string[];
+        includeExecutor?: boolean;
+        guildEvents?: string[];
+        contextMenuType?: string;
+        contextMenuName?: string;
+        scheduledEventEvents?: string[];
+        pollVoteEvents?: string[];
+        pollMessageIds?: string;
+        inviteEvents?: string[];
+        structureEvents?: string[];
+        commandName?: string;
+        commandDescription?: string;
+        commandOptions?: {
+            option?: {
+                name: string;
+                description: string;
+                type: string;
+                required: boolean;
+                choices: string;
+            }[];
+        };
         additionalFields?: {
             externalBotTrigger?: boolean;
         };
@@ -74,319 +213,2639 @@ interface ITriggerNode {
     };
 }
 
-// Add missing interface definitions
-interface INode {
-    // Define minimum required properties
-    id: string;
-    name: string;
-    type: string;
-}
+// Add missing interface definitions
+interface INode {
+    // Define minimum required properties
+    id: string;
+    name: string;
+    type: string;
+}
+
+interface IWebhookData {
+    // Define minimum required properties
+    httpMethod: string;
+    path: string;
+}
+
+interface IWorkflow {
+    // Define minimum required properties
+    id: string;
+}
+
+interface IWorkflowExecuteAdditionalData {
+    // Define minimum required properties
+}
+
+// Update IBotInstance interface
+interface IBotInstance {
+    id: string;
+    client: Client;
+    triggerNodes: { [key: string]: ITriggerNode };
+    ready: boolean;
+    login: boolean;
+    clientId: string;
+    token: string;
+    baseUrl: string;
+    parameters: any;
+}
+
+// Store clients for different Discord accounts
+const clients: { [credentialHash: string]: Client } = {};
+
+// Track active connections for cleanup
+const activeConnections: Set<string> = new Set();
+
+// Store placeholders for running workflows
+const placeholders: { [nodeId: string]: { message: Message, interval: NodeJS.Timeout } } = {};
+
+// Store message queues for each node
+const messageQueues: { [nodeId: string]: any[] } = {};
+
+// Store the invite uses of each guild for each client, to find out which invite a new member used
+// Only filled while an invite or member join trigger is registered for the client
+const inviteUses: {
+    [clientGuildKey: string]: {
+        [code: string]: { uses: number; maxUses: number; inviterId: string | null; inviterName: string | null }
+    }
+} = {};
+
+// Store application commands registered by each node, so they can be removed when the node is closed
+const registeredCommands: {
+    [nodeId: string]: { credentialHash: string; commands: { guildId: string | null; commandId: string }[] }
+} = {};
+
+// Store the timestamps of recent triggers for each node and rate limit scope
+// The throttled response is sent at most once per key until the window ends
+const triggerHistory: {
+    [rateLimitKey: string]: { nodeId: string; interval: number; timestamps: number[]; respondedUntil: number }
+} = {};
+
+// Store the messages being aggregated for each node, channel and author until a quiet period passes
+const messageBursts: {
+    [burstKey: string]: {
+        nodeId: string;
+        startedTimestamp: number;
+        messages: Message[];
+        processedContents: string[];
+        timeout: NodeJS.Timeout;
+    }
+} = {};
+
+export default function (): void {
+    // Prevent multiple instances of the bot server
+    if (global.__n8nDiscordServerStarted) {
+        console.log('Bot server already started, skipping initialization');
+        return;
+    }
+
+    // Choose socket path based on operating system
+    // Windows uses named pipes, Unix-like systems use Unix domain sockets
+    const socketPath = os.platform() === 'win32'
+        ? '\\\\.\\pipe\\n8n-discord-bot'  // Windows named pipe - must match helper.ts
+        : '/tmp/bot';                     // Unix domain socket
+
+    console.log(`Using socket path: ${socketPath}`);
+
+    // Clean up any existing socket file to prevent EADDRINUSE errors
+    // Only needed for Unix platforms, not for Windows named pipes
+    if (os.platform() !== 'win32' && fs.existsSync(socketPath)) {
+        try {
+            fs.unlinkSync(socketPath);
+            console.log(`Removed existing socket file at ${socketPath}`);
+        } catch (err) {
+            console.error(`Error cleaning up socket file:`, err);
+        }
+    }
+
+    // Configure IPC
+    ipc.config.id = 'bot';
+    ipc.config.retry = 1500;
+    ipc.config.silent = false; // Enable logs for debugging
+
+    // Set different socket configurations depending on the OS
+    if (os.platform() === 'win32') {
+        ipc.config.networkHost = 'localhost';        // Only needed for Windows
+        ipc.config.networkPort = 8000;              // Only needed for Windows
+    } else {
+        ipc.config.socketRoot = '/tmp/';            // Unix socket path
+        ipc.config.appspace = '';                   // Unix socket option
+        ipc.config.unlink = true;                   // Clean up socket on exit
+    }
+
+    ipc.config.maxRetries = 10;                     // Set maximum retries
+    ipc.config.stopRetrying = false;                // Don't stop retrying
+
+    console.log(`IPC Server Configuration: ${os.platform() === 'win32' ? 'Windows Named Pipe' : 'Unix Socket'}`);
+    console.log(`Expected socket path: ${socketPath}`);
+
+    // Export the socket path so helper.ts can use it
+    if (typeof global.__n8nDiscordSocketPath === 'undefined') {
+        Object.defineProperty(global, '__n8nDiscordSocketPath', {
+            value: socketPath,
+            writable: false,
+            configurable: false,
+        });
+    }
+
+    // Mark server as started to prevent duplicate initialization
+    global.__n8nDiscordServerStarted = true;
+
+    // Regularly forget the expired rate limit entries of users and channels that did not trigger again
+    setInterval(() => pruneTriggerHistory(), 60000).unref();
+
+    // Helper function to create a new Discord client
+    function createNewClient(credentials: ICredentials): Client {
+        const client = new Client({
+            intents: [
+                GatewayIntentBits.Guilds,
+                GatewayIntentBits.GuildMessages,
+                GatewayIntentBits.MessageContent,
+                GatewayIntentBits.GuildMembers,
+                GatewayIntentBits.GuildPresences,
+                GatewayIntentBits.GuildBans,
+                GatewayIntentBits.GuildMessageReactions,
+                GatewayIntentBits.GuildMessageTyping,
+                GatewayIntentBits.DirectMessages,
+                GatewayIntentBits.GuildVoiceStates,
+                GatewayIntentBits.GuildScheduledEvents,
+                GatewayIntentBits.GuildMessagePolls,
+                GatewayIntentBits.GuildInvites,
+            ],
+            // Partials are required to receive direct messages and reactions on messages sent before the bot started
+            partials: [
+                Partials.Message,
+                Partials.Channel,
+                Partials.Reaction,
+                Partials.User,
+                Partials.GuildMember,
+                Partials.GuildScheduledEvent,
+                Partials.Poll,
+                Partials.PollAnswer,
+            ],
+            allowedMentions: {
+                parse: ['roles', 'users', 'everyone'],
+            },
+        });
+
+        client.once('ready', () => {
+            console.log(`Logged in as ${client.user?.tag} (Client ID: ${credentials.clientId})`);
+        });
+
+        // Set up onMessageCreate handler for this specific client
+        setupClientMessageHandler(client);
+
+        // Set up reaction add/remove handlers for this specific client
+        setupClientReactionHandler(client);
+
+        // Set up interactionCreate handler for this specific client
+        setupClientInteractionHandler(client);
+
+        // Set up member join/leave/update handlers for this specific client
+        setupClientMemberHandler(client);
+
+        // Set up threadCreate handler for this specific client
+        setupClientThreadHandler(client);
+
+        // Set up voiceStateUpdate handler for this specific client
+        setupClientVoiceHandler(client);
+
+        // Set up presenceUpdate handler for this specific client
+        setupClientPresenceHandler(client);
+
+        // Set up ban/unban handlers for this specific client
+        setupClientModerationHandler(client);
+
+        // Set up guildCreate/guildDelete handlers for this specific client
+        setupClientGuildHandler(client);
+
+        // Set up scheduled event handlers for this specific client
+        setupClientScheduledEventHandler(client);
+
+        // Set up poll vote handlers for this specific client
+        setupClientPollHandler(client);
+
+        // Set up invite handlers for this specific client
+        setupClientInviteHandler(client);
+
+        // Set up channel and role lifecycle handlers for this specific client
+        setupClientServerStructureHandler(client);
+
+        return client;
+    }
+
+    // Helper function to get the IDs of the trigger nodes of a given type using this client
+    function getRelevantNodeIds(client: Client, type: string): string[] {
+        return Object.entries(settings.triggerNodes)
+            .filter(([_, data]) => {
+                const triggerNode = data as unknown as ITriggerNode;
+                const botInstance = settings.botInstances[triggerNode.credHash] as IBotInstance | undefined;
+                const nodeType = triggerNode.parameters?.type || 'message';
+                return nodeType === type && botInstance && botInstance.clientId === client.application?.id;
+            })
+            .map(([nodeId, _]) => nodeId);
+    }
+
+    // Helper function to check if a channel is one of the selected channels
+    // Threads and forum posts match through their parent channel, and channels through their category
+    function isInChannels(channel: Channel | null, channelIds: string[], channelId?: string | null): boolean {
+        const hierarchy: string[] = channel ? [channel.id] : channelId ? [channelId] : [];
+
+        if (channel && !channel.isDMBased() && channel.parentId) {
+            hierarchy.push(channel.parentId);
+            if (channel.isThread() && channel.parent?.parentId) hierarchy.push(channel.parent.parentId);
+        }
+
+        return channelIds.some((id) => hierarchy.includes(id));
+    }
+
+    // Helper function to check the guild, channel and role restrictions of a trigger node,
+    // the channel and role restrictions are only checked for events that provide them
+    function matchesNodeRestrictions(
+        parameters: ITriggerNode['parameters'],
+        target: { guildId: string | null; channel?: Channel | null; channelId?: string | null; memberRoles?: string[] },
+    ): boolean {
+        if (parameters.guildIds && parameters.guildIds.length > 0) {
+            if (!target.guildId || !parameters.guildIds.includes(target.guildId)) return false;
+        }
+
+        if (parameters.channelIds && parameters.channelIds.length && (target.channel !== undefined || target.channelId !== undefined)) {
+            if (!isInChannels(target.channel ?? null, parameters.channelIds, target.channelId)) return false;
+        }
+
+        const { memberRoles } = target;
+        if (parameters.roleIds && parameters.roleIds.length && memberRoles) {
+            if (!parameters.roleIds.some((role: string) => memberRoles.includes(role))) return false;
+        }
+
+        return true;
+    }
+
+    // Helper function to check if a trigger node ignores events of a user, bots are ignored
+    // unless the node triggers on external bots and the bot's own events are always ignored
+    function ignoresUser(
+        client: Client,
+        parameters: ITriggerNode['parameters'],
+        user: User | PartialUser | null | undefined,
+        userId: string | null | undefined = user?.id,
+    ): boolean {
+        const triggerOnExternalBot = parameters.additionalFields?.externalBotTrigger || false;
+        if (!triggerOnExternalBot) return !!(user?.bot || user?.system);
+        return userId === client.user?.id;
+    }
+
+    // Helper function to split a comma separated parameter into a list of trimmed values
+    function splitListParameter(value?: string | string[]): string[] {
+        const values = typeof value === 'string' ? value.split(',') : value || [];
+        return values.map((item) => `${item}`.trim()).filter((item) => item !== '');
+    }
+
+    // Helper function to send event data to a specific trigger node
+    function emitTriggerEvent(eventName: string, nodeId: string, data: Record<string, any> | Record<string, any>[]): void {
+        ipc.server.broadcast(eventName, {
+            data,
+            nodeId,
+        });
+    }
+
+    // Helper function to setup message handler for a client
+    function setupClientMessageHandler(client: Client): void {
+        client.on('messageCreate', async (message: Message) => {
+            try {
+                // Get all relevant node IDs for this client
+                const relevantNodeIds = getRelevantNodeIds(client, 'message');
+
+                if (relevantNodeIds.length === 0) return;
+
+                // resolve the message reference if it exists
+                let messageReference: Message | null = null;
+                let messageReferenceFetched = !message.reference;
+
+                // Instead of checking each node's parameters after common checks,
+                // process each node independently to ensure proper isolation
+                for (const nodeId of relevantNodeIds) {
+                    try {
+                        const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                        if (!parameters) continue;
+
+                        // Check if the message matches this node's filters and pattern
+                        const match = matchMessage(client, message, parameters);
+                        if (!match) continue;
+
+                        // Messages of a burst in progress join it, the burst as a whole counts as one trigger
+                        const burstKey = `${nodeId}_${message.channelId}_${message.author.id}`;
+                        if (!match.commandError && parameters.aggregateMessages && messageBursts[burstKey]) {
+                            addToMessageBurst(burstKey, nodeId, parameters, message, match.processedContent);
+                            continue;
+                        }
+
+                        // Check the rate limits of this node before triggering the workflow or replying with a command usage
+                        const throttle = checkRateLimits(nodeId, message, parameters);
+                        if (throttle) {
+                            console.log(`Message throttled for node ${nodeId}. Retry after: ${throttle.retryAfter}s`);
+                            await sendThrottledResponse(message, parameters, throttle);
+                            continue;
+                        }
+
+                        // Invalid command arguments, reply with the usage instead of triggering the workflow
+                        if (match.commandError) {
+                            if (parameters.replyWithUsage !== false) {
+                                await message.reply({
+                                    content: `${match.commandError}\n${buildCommandUsage(parameters)}`,
+                                    allowedMentions: { repliedUser: false },
+                                }).catch((e) => console.log(`Error sending command usage:`, e));
+                            }
+                            continue;
+                        }
+
+                        if (parameters.aggregateMessages) {
+                            addToMessageBurst(burstKey, nodeId, parameters, message, match.processedContent);
+                            continue;
+                        }
+
+                        // Fetch message reference if needed - only once per message processing
+                        if (!messageReferenceFetched && message.reference) {
+                            try {
+                                messageReference = await message.fetchReference();
+                                messageReferenceFetched = true;
+                            } catch (e) {
+                                console.log(`Error fetching message reference:`, e);
+                            }
+                        }
+
+                        // Before emitting message data, check if the workflow is still active
+                        // We store this in the triggerNodes object
+                        const nodeInfo = settings.triggerNodes[nodeId];
+                        if (!nodeInfo) {
+                            console.log(`Skipping trigger for unregistered node: ${nodeId}`);
+                            return;
+                        }
+
+                        // Allow messages to be processed even if the node is not active
+                        // This is necessary for test workflows in n8n
+                        // The workflow will only actually execute if it's being tested or is active
+
+                        console.log(`Trigger activated for node ${nodeId}. Pattern: ${parameters.pattern}, botMention: ${match.botMention}, hasImageAttachments: ${match.hasImageAttachments}, guild: ${message.guild?.name || 'DM'} (${message.guild?.id || 'none'})`);
+
+                        // Send placeholder message if configured
+                        if (parameters.placeholder && parameters.placeholder.trim() !== '') {
+                            sendPlaceholderMessage(nodeId, message.channel as TextChannel, parameters.placeholder);
+                        }
+
+                        // Emit the message data specifically to this node
+                        const messageData = {
+                            message: {
+                                ...message,
+                                processedContent: match.processedContent,
+                                command: match.command,
+                                regexMatch: match.regexMatch
+                            },
+                            messageReference,
+                            referenceAuthor: messageReference?.author,
+                            author: message.author,
+                            nodeId: nodeId
+                        };
+
+                        // Send message only to this specific node
+                        ipc.server.broadcast('messageCreate', messageData);
+                    } catch (e) {
+                        console.error(`Error processing message for node ${nodeId}:`, e);
+                    }
+                }
+            } catch (error) {
+                console.error('Error in message handler:', error);
+            }
+        });
+
+        client.on('messageUpdate', async (oldMessage, newMessage) => {
+            try {
+                const relevantNodeIds = getRelevantNodeIds(client, 'messageUpdate');
+                if (relevantNodeIds.length === 0) return;
+
+                // Edits of uncached messages are received as partials, fetch the new version
+                const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+
+                // Embeds being resolved, pins, crossposts and threads also emit an update, only keep actual edits
+                // An uncached old message has no content to compare, its edit timestamp tells if it was edited
+                if (!message.editedTimestamp || message.editedTimestamp === oldMessage.editedTimestamp) return;
+                if (!oldMessage.partial && oldMessage.content === message.content) return;
+
+                for (const nodeId of relevantNodeIds) {
+                    try {
+                        const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                        if (!parameters) continue;
+
+                        // The filters are applied to the new content
+                        const match = matchMessage(client, message, parameters);
+                        if (!match || match.commandError) continue;
+
+                        console.log(`Message edit trigger activated for node ${nodeId}. Message: ${message.id}`);
+
+                        // Send placeholder message if configured
+                        if (parameters.placeholder && parameters.placeholder.trim() !== '') {
+                            sendPlaceholderMessage(nodeId, message.channel as TextChannel, parameters.placeholder);
+                        }
+
+                        emitTriggerEvent('messageUpdate', nodeId, {
+                            event: 'update',
+                            id: message.id,
+                            content: message.content,
+                            processedContent: match.processedContent,
+                            command: match.command ?? null,
+                            regexMatch: match.regexMatch ?? null,
+                            oldContent: oldMessage.partial ? null : oldMessage.content,
+                            oldContentCached: !oldMessage.partial,
+                            channelId: message.channelId,
+                            guildId: message.guildId,
+                            isDM: !message.guildId,
+                            authorId: message.author.id,
+                            authorName: message.author.username,
+                            authorIsBot: message.author.bot || message.author.system,
+                            timestamp: message.createdTimestamp,
+                            editedTimestamp: message.editedTimestamp,
+                            attachments: formatAttachments(message),
+                            oldAttachments: oldMessage.partial ? null : formatAttachments(oldMessage),
+                        });
+                    } catch (e) {
+                        console.error(`Error processing message edit for node ${nodeId}:`, e);
+                    }
+                }
+            } catch (error) {
+                console.error('Error in message update handler:', error);
+            }
+        });
+
+        client.on('messageDelete', async (message) => {
+            await handleMessageDelete(client, [message], false);
+        });
+
+        client.on('messageDeleteBulk', async (messages) => {
+            await handleMessageDelete(client, Array.from(messages.values()), true);
+        });
+    }
+
+    // Function to check a message against the guild/channel/role filters and the pattern of a node
+    // Returns null when the message does not match
+    function matchMessage(
+        client: Client,
+        message: Message | PartialMessage,
+        parameters: ITriggerNode['parameters'],
+    ): {
+        processedContent: string;
+        botMention: boolean;
+        hasImageAttachments: boolean;
+        command?: IParsedCommand;
+        commandError?: string;
+        regexMatch?: IRegexMatch;
+    } | null {
+        // Get specific pattern for this node
+        const pattern = parameters.pattern as string;
+
+        // Check if this node should process bot messages, the author of a deleted uncached message is unknown
+        if (message.author && ignoresUser(client, parameters, message.author)) return null;
+
+        // Check user restrictions for this specific node, excluded users always take precedence
+        if (message.author) {
+            if (splitListParameter(parameters.excludedUserIds).includes(message.author.id)) return null;
+
+            const userIds = splitListParameter(parameters.userIds);
+            if (userIds.length && !userIds.includes(message.author.id)) return null;
+        }
+
+        // Check message source for this specific node, server channels only by default
+        const isDM = !message.guildId;
+        const messageSource = parameters.messageSource || 'guild';
+        if (isDM && messageSource === 'guild') return null;
+        if (!isDM && messageSource === 'dm') return null;
+
+        // Guild, role and channel restrictions only apply to server messages
+        if (!isDM) {
+            // Check excluded roles and channels first, they always take precedence
+            const userRoles = message.member?.roles.cache.map((role) => role.id) ?? [];
+            if (parameters.excludedRoleIds?.some((role: string) => userRoles.includes(role))) return null;
+
+            if (parameters.excludedChannelIds && isInChannels(message.channel, parameters.excludedChannelIds)) return null;
+
+            // Check guild, role and channel restrictions for this specific node,
+            // messages sent in a thread match when the parent channel or its category is selected
+            if (!matchesNodeRestrictions(parameters, { guildId: message.guildId, channel: message.channel, memberRoles: userRoles })) return null;
+        }
+
+        // Check reference requirement for this specific node
+        if (parameters.messageReferenceRequired && !message.reference) {
+            return null;
+        }
+
+        const clientId = client.user?.id;
+        if (!clientId) return null;
+
+        // Prepare regex and other checks for this specific node
+        const escapedTriggerValue = String(parameters.value || '')
+            .replace(/[|\\{}()[\]^$+*?.]/g, '\\$&')
+            .replace(/-/g, '\\x2d');
+
+        // Bot mention detection for this specific node
+        const mentionRegex = new RegExp(`<@!?${clientId}>|<@${clientId}>`, 'g');
+        const botMention = message.mentions.users.some((user) => user.id === clientId) ||
+                        mentionRegex.test(message.content || '');
+
+        // Image attachment check for this specific node
+        const hasImageAttachments = message.attachments.some(attachment =>
+            getAttachmentCategory(attachment.contentType, attachment.name) === 'image'
+        );
+
+        // Select regex pattern based on this node's configuration
+        let regStr = `^${escapedTriggerValue}$`;
+
+        if (pattern === "botMention" && !botMention) {
+            return null;
+        }
+        else if (pattern === "containImage" && !hasImageAttachments) {
+            return null;
+        }
+        else if (pattern === "containAttachment" && !matchAttachments(message, parameters)) {
+            return null;
+        }
+        else if (pattern === "start" && message.content)
+            regStr = `^${escapedTriggerValue}`;
+        else if (pattern === 'end')
+            regStr = `${escapedTriggerValue}$`;
+        else if (pattern === 'contain')
+            regStr = `${escapedTriggerValue}`;
+        else if (pattern === 'every')
+            regStr = `(.*)`;
+
+        const reg = new RegExp(regStr, parameters.caseSensitive ? '' : 'i');
+        const messageContent = message.content || '';
+
+        // Prefix commands are parsed instead of being tested against a regex
+        let command: IParsedCommand | undefined;
+        let commandError: string | undefined;
+        if (pattern === "command") {
+            const parsed = parsePrefixCommand(messageContent, parameters);
+            if (!parsed) return null;
+            command = parsed.command;
+            commandError = parsed.error;
+        }
+
+        // Custom regexes keep their match, capture groups and global matches
+        let regexMatch: IRegexMatch | undefined;
+        if (pattern === "regex") {
+            const matched = matchRegex(messageContent, parameters);
+            if (!matched) return null;
+            regexMatch = matched;
+        }
+
+        // Check if the message matches this node's pattern, the other patterns are already checked above
+        const checkedPatterns = ["botMention", "containImage", "containAttachment", "command", "regex"];
+        if (checkedPatterns.includes(pattern) || reg.test(messageContent)) {
+
+            // For bot mentions, clean up the content
+            let processedContent = messageContent;
+            if (pattern === "botMention" && botMention) {
+                processedContent = messageContent.replace(mentionRegex, '').trim();
+            }
+            else if (command) {
+                processedContent = command.rawArgs;
+            }
+
+            // Check the additional filter rules of this node
+            const cleanContent = messageContent.replace(mentionRegex, '').trim();
+            if (!matchFilterRules(message, parameters, { clientId, botMention, cleanContent })) return null;
+
+            return { processedContent, botMention, hasImageAttachments, command, commandError, regexMatch };
+        }
+
+        return null;
+    }
+
+    // Function to match the custom regex of a node against the content of a message
+    // Returns null when the content does not match
+    function matchRegex(content: string, parameters: ITriggerNode['parameters']): IRegexMatch | null {
+        const flags = (parameters.regexFlags || []).filter((flag) => ['g', 'm', 's', 'u'].includes(flag)).join('') +
+            (parameters.caseSensitive ? '' : 'i');
+        const reg = new RegExp(String(parameters.value || ''), flags);
+
+        const formatMatch = (match: RegExpMatchArray) => ({
+            match: Array.from(match, (value): string | null => value ?? null),
+            groups: match.groups
+                ? Object.fromEntries(Object.entries(match.groups).map(([name, value]): [string, string | null] => [name, value ?? null]))
+                : null,
+            index: match.index ?? 0,
+        });
+
+        // With the global flag, every match is kept and the first one is used as the main match
+        if (flags.includes('g')) {
+            const matches = Array.from(content.matchAll(reg), formatMatch);
+            if (!matches.length) return null;
+            return { ...matches[0], matches };
+        }
+
+        const match = content.match(reg);
+        return match ? { ...formatMatch(match), matches: null } : null;
+    }
+
+    // Function to check the attachments of a message against the attachment filters of a node
+    function matchAttachments(message: Message | PartialMessage, parameters: ITriggerNode['parameters']): boolean {
+        const categories = parameters.attachmentCategories || [];
+        const extensions = splitListParameter(parameters.attachmentExtensions)
+            .map((extension) => extension.replace(/^\./, '').toLowerCase());
+        const minSize = (Number(parameters.attachmentMinSize) || 0) * 1024;
+        const maxSize = (Number(parameters.attachmentMaxSize) || 0) * 1024;
+
+        const matchingAttachments = message.attachments.filter((attachment) => {
+            const extension = attachment.name?.includes('.') ? attachment.name.split('.').pop()?.toLowerCase() || '' : '';
+
+            if (categories.length && !categories.includes(getAttachmentCategory(attachment.contentType, attachment.name))) return false;
+            if (extensions.length && !extensions.includes(extension)) return false;
+            if (minSize && attachment.size < minSize) return false;
+            if (maxSize && attachment.size > maxSize) return false;
+
+            return true;
+        });
+
+        const minCount = Math.max(1, Number(parameters.attachmentMinCount) || 1);
+        const maxCount = Number(parameters.attachmentMaxCount) || 0;
+
+        return matchingAttachments.size >= minCount && (!maxCount || matchingAttachments.size <= maxCount);
+    }
+
+    // Function to parse a prefix command and its arguments from the content of a message
+    // Returns null when the message is not this command, and an error when its arguments are invalid
+    function parsePrefixCommand(
+        content: string,
+        parameters: ITriggerNode['parameters'],
+    ): { command?: IParsedCommand; error?: string } | null {
+        const prefix = String(parameters.commandPrefix ?? '');
+        const caseSensitive = parameters.caseSensitive || false;
+        const normalize = (value: string) => caseSensitive ? value : value.toLowerCase();
+
+        const trimmed = content.trim();
+        if (!normalize(trimmed).startsWith(normalize(prefix))) return null;
+
+        // The command name directly follows the prefix
+        const nameMatch = trimmed.slice(prefix.length).match(/^(\S+)\s*([\s\S]*)$/);
+        if (!nameMatch) return null;
+
+        const name = String(parameters.prefixCommandName || '').trim();
+        const names = [name, ...splitListParameter(parameters.commandAliases)].map(normalize);
+        if (!names.includes(normalize(nameMatch[1]))) return null;
+
+        const rawArgs = nameMatch[2].trim();
+        let remaining = rawArgs;
+        const args: IParsedCommand['args'] = {};
+
+        for (const argument of parameters.commandArguments?.argument || []) {
+            let token = '';
+
+            if (argument.type === 'rest') {
+                token = remaining;
+                remaining = '';
+            }
+            else if (argument.type === 'quoted' && remaining.startsWith('"')) {
+                const quotedMatch = remaining.match(/^"((?:[^"\\]|\\.)*)"\s*/);
+                if (!quotedMatch) return { error: `Missing closing quote for argument "${argument.name}".` };
+                token = quotedMatch[1].replace(/\\(.)/g, '$1');
+                remaining = remaining.slice(quotedMatch[0].length);
+            }
+            else {
+                const tokenMatch = remaining.match(/^(\S+)\s*/);
+                token = tokenMatch ? tokenMatch[1] : '';
+                remaining = tokenMatch ? remaining.slice(tokenMatch[0].length) : '';
+            }
+
+            if (!token) {
+                if (argument.required) return { error: `Missing argument "${argument.name}".` };
+                args[argument.name] = null;
+                continue;
+            }
+
+            const value = parseCommandArgument(token, argument.type);
+            if (value === null) return { error: `Invalid value "${token}" for argument "${argument.name}".` };
+            args[argument.name] = value;
+        }
+
+        return {
+            command: {
+                prefix,
+                name,
+                invokedWith: nameMatch[1],
+                args,
+                rawArgs,
+            },
+        };
+    }
+
+    // Function to convert a command argument to its type, returns null when the value is invalid
+    function parseCommandArgument(token: string, type: string): string | number | null {
+        const mentionPatterns: { [type: string]: RegExp } = {
+            user: /^(?:<@!?(\d{17,20})>|(\d{17,20}))$/,
+            channel: /^(?:<#(\d{17,20})>|(\d{17,20}))$/,
+            role: /^(?:<@&(\d{17,20})>|(\d{17,20}))$/,
+        };
+
+        if (type === 'number') {
+            const value = Number(token);
+            return isNaN(value) ? null : value;
+        }
+
+        if (mentionPatterns[type]) {
+            const mentionMatch = token.match(mentionPatterns[type]);
+            return mentionMatch ? mentionMatch[1] || mentionMatch[2] : null;
+        }
+
+        return token;
+    }
+
+    // Function to build the usage message of a prefix command
+    function buildCommandUsage(parameters: ITriggerNode['parameters']): string {
+        const prefix = String(parameters.commandPrefix ?? '');
+        const usage = (parameters.commandArguments?.argument || []).map((argument) => {
+            const label = argument.type === 'rest' ? `${argument.name}...` : argument.name;
+            return argument.required ? `<${label}>` : `[${label}]`;
+        });
+
+        let content = `Usage: \`${[`${prefix}${parameters.prefixCommandName || ''}`, ...usage].join(' ')}\``;
+
+        const aliases = splitListParameter(parameters.commandAliases);
+        if (aliases.length) {
+            content += `\nAliases: ${aliases.map((alias) => `\`${prefix}${alias}\``).join(', ')}`;
+        }
+
+        return content;
+    }
+
+    // Function to buffer a message in a burst, the burst is emitted once no message joined it for the quiet period
+    function addToMessageBurst(
+        burstKey: string,
+        nodeId: string,
+        parameters: ITriggerNode['parameters'],
+        message: Message,
+        processedContent: string,
+    ): void {
+        const burst = messageBursts[burstKey];
+        if (burst) clearTimeout(burst.timeout);
+
+        const messages = [...(burst?.messages || []), message];
+        const startedTimestamp = burst?.startedTimestamp ?? Date.now();
+
+        // A burst is emitted once it reaches 20 messages or lasts a minute, even if the author keeps posting
+        const quietDelay = Math.max(1, Number(parameters.aggregationDelay) || 4) * 1000;
+        const delay = messages.length >= 20 ? 0 : Math.min(quietDelay, Math.max(0, startedTimestamp + 60000 - Date.now()));
+
+        messageBursts[burstKey] = {
+            nodeId,
+            startedTimestamp,
+            messages,
+            processedContents: [...(burst?.processedContents || []), processedContent],
+            timeout: setTimeout(() => flushMessageBurst(burstKey), delay),
+        };
+    }
+
+    // Function to drop the bursts of a node without emitting them
+    function clearMessageBursts(nodeId: string): void {
+        for (const [burstKey, burst] of Object.entries(messageBursts)) {
+            if (burst.nodeId !== nodeId) continue;
+            clearTimeout(burst.timeout);
+            delete messageBursts[burstKey];
+        }
+    }
+
+    // Function to emit the buffered messages of a burst as a single message
+    async function flushMessageBurst(burstKey: string): Promise<void> {
+        const burst = messageBursts[burstKey];
+        delete messageBursts[burstKey];
+        if (!burst) return;
+
+        try {
+            const nodeId = burst.nodeId;
+            const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+            if (!parameters) {
+                console.log(`Skipping message burst for unregistered node: ${nodeId}`);
+                return;
+            }
+
+            const [firstMessage] = burst.messages;
+
+            // The burst replies to the message referenced by its first message
+            let messageReference: Message | null = null;
+            if (firstMessage.reference) {
+                try {
+                    messageReference = await firstMessage.fetchReference();
+                } catch (e) {
+                    console.log(`Error fetching message reference:`, e);
+                }
+            }
+
+            console.log(`Message burst trigger activated for node ${nodeId}. Messages: ${burst.messages.length}`);
+
+            // Send placeholder message if configured
+            if (parameters.placeholder && parameters.placeholder.trim() !== '') {
+                sendPlaceholderMessage(nodeId, firstMessage.channel as TextChannel, parameters.placeholder);
+            }
+
+            ipc.server.broadcast('messageCreate', {
+                message: {
+                    ...firstMessage,
+                    content: burst.messages.map((message) => message.content).join('\n'),
+                    processedContent: burst.processedContents.join('\n'),
+                    attachments: burst.messages.reduce(
+                        (attachments, message) => attachments.concat(message.attachments),
+                        new Collection<string, Attachment>(),
+                    ),
+                    messageIds: burst.messages.map((message) => message.id),
+                },
+                messageReference,
+                referenceAuthor: messageReference?.author,
+                author: firstMessage.author,
+                nodeId,
+            });
+        } catch (e) {
+            console.error(`Error emitting message burst for node ${burst.nodeId}:`, e);
+        }
+    }
+
+    // Function to check and record a trigger against the rate limits of a node
+    // Returns null when the trigger is allowed, otherwise the number of seconds to wait and the limit reached
+    function checkRateLimits(
+        nodeId: string,
+        message: Message,
+        parameters: ITriggerNode['parameters'],
+    ): { retryAfter: number; key: string } | null {
+        const limits = parameters.rateLimits?.limit || [];
+        if (limits.length === 0) return null;
+
+        const now = Date.now();
+        const keys: string[] = [];
+        let throttle: { retryAfter: number; key: string } | null = null;
+
+        for (const limit of limits) {
+            const scopeId = { user: message.author.id, channel: message.channelId, global: 'all' }[limit.scope] ?? 'all';
+            const interval = Math.max(1, Number(limit.interval) || 1) * 1000;
+            const key = `${nodeId}_${limit.scope}_${scopeId}_${interval}`;
+
+            // Forget the triggers that are out of the interval
+            const entry = triggerHistory[key] ?? { nodeId, interval, timestamps: [], respondedUntil: 0 };
+            entry.timestamps = entry.timestamps.filter((timestamp) => now - timestamp < interval);
+            triggerHistory[key] = entry;
+            keys.push(key);
+
+            if (entry.timestamps.length >= Math.max(1, Number(limit.maxTriggers) || 1)) {
+                const retryAfter = Math.ceil((entry.timestamps[0] + interval - now) / 1000);
+                if (!throttle || retryAfter > throttle.retryAfter) throttle = { retryAfter, key };
+            }
+        }
+
+        if (throttle) return throttle;
+
+        // Only record the trigger when every limit is respected
+        for (const key of keys) triggerHistory[key].timestamps.push(now);
+
+        return null;
+    }
+
+    // Function to forget the rate limit entries that expired, and every entry of a node when given
+    function pruneTriggerHistory(nodeId?: string): void {
+        const now = Date.now();
+
+        for (const [key, entry] of Object.entries(triggerHistory)) {
+            const expired = entry.respondedUntil <= now && entry.timestamps.every((timestamp) => now - timestamp >= entry.interval);
+            if (expired || entry.nodeId === nodeId) delete triggerHistory[key];
+        }
+    }
+
+    // Function to notify the author of a throttled message, once per limit reached until its window ends
+    async function sendThrottledResponse(
+        message: Message,
+        parameters: ITriggerNode['parameters'],
+        throttle: { retryAfter: number; key: string },
+    ): Promise<void> {
+        const entry = triggerHistory[throttle.key];
+        if (!entry || entry.respondedUntil > Date.now()) return;
+        entry.respondedUntil = Date.now() + throttle.retryAfter * 1000;
+
+        try {
+            if (parameters.throttledResponse === 'react') {
+                await message.react('⏳');
+            }
+            else if (parameters.throttledResponse === 'reply' && parameters.throttledMessage) {
+                await message.reply({
+                    content: parameters.throttledMessage.replace(/{seconds}/g, String(throttle.retryAfter)),
+                    allowedMentions: { repliedUser: false },
+                });
+            }
+        } catch (e) {
+            console.log(`Error sending throttled response:`, e);
+        }
+    }
+
+    // Function to evaluate the filter rules of a node against a message
+    // Rules sharing the same group are combined with OR, groups are combined with AND
+    function matchFilterRules(
+        message: Message | PartialMessage,
+        parameters: ITriggerNode['parameters'],
+        context: { clientId: string; botMention: boolean; cleanContent: string },
+    ): boolean {
+        const rules = parameters.filterRules?.rule || [];
+        if (rules.length === 0) return true;
+
+        const groups: { [group: string]: boolean } = {};
+
+        for (const rule of rules) {
+            const group = String(rule.group || 'main').trim();
+            const result = evaluateFilterRule(message, rule, parameters.caseSensitive || false, context);
+            groups[group] = (groups[group] || false) || (rule.negate ? !result : result);
+        }
+
+        return Object.values(groups).every((result) => result);
+    }
+
+    // Function to evaluate a single filter rule against a message
+    function evaluateFilterRule(
+        message: Message | PartialMessage,
+        rule: { condition: string; value: string },
+        caseSensitive: boolean,
+        context: { clientId: string; botMention: boolean; cleanContent: string },
+    ): boolean {
+        const content = caseSensitive ? context.cleanContent : context.cleanContent.toLowerCase();
+        const value = caseSensitive ? String(rule.value || '') : String(rule.value || '').toLowerCase();
+
+        switch (rule.condition) {
+            case 'contentStartsWith':
+                return content.startsWith(value);
+            case 'contentContains':
+                return content.includes(value);
+            case 'contentEndsWith':
+                return content.endsWith(value);
+            case 'contentEquals':
+                return content === value;
+            case 'contentRegex':
+                return new RegExp(String(rule.value || ''), caseSensitive ? '' : 'i').test(context.cleanContent);
+            case 'authorIds':
+                return Boolean(message.author) && splitListParameter(rule.value).includes(message.author!.id);
+            case 'roleIds': {
+                const userRoles = message.member?.roles.cache.map((role) => role.id) || [];
+                return splitListParameter(rule.value).some((role) => userRoles.includes(role));
+            }
+            case 'channelIds':
+                return isInChannels(message.channel, splitListParameter(rule.value));
+            case 'hasAttachment':
+                return message.attachments.size > 0;
+            case 'mentionsBot':
+                return context.botMention;
+            case 'replyToBot':
+                return Boolean(message.reference) && message.mentions.repliedUser?.id === context.clientId;
+            default:
+                return false;
+        }
+    }
+
+    // Function to format the attachments of a message for workflow execution
+    function formatAttachments(message: Message | PartialMessage): Record<string, any>[] {
+        return Array.from(message.attachments.values()).map((attachment) => ({
+            id: attachment.id,
+            url: attachment.url,
+            proxyUrl: attachment.proxyURL,
+            filename: attachment.name,
+            contentType: attachment.contentType,
+            category: getAttachmentCategory(attachment.contentType, attachment.name),
+            size: attachment.size,
+            width: attachment.width,
+            height: attachment.height,
+            description: attachment.description,
+            ephemeral: attachment.ephemeral,
+        }));
+    }
+
+    async function handleMessageDelete(client: Client, messages: (Message | PartialMessage)[], bulk: boolean): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'messageDelete');
+            if (relevantNodeIds.length === 0) return;
+
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    // The filters are applied to the last known content, uncached messages have no content
+                    const matchedMessages = messages.filter((message) => {
+                        const match = matchMessage(client, message, parameters);
+                        return match && !match.commandError;
+                    });
+                    if (matchedMessages.length === 0) continue;
+
+                    console.log(`Message delete trigger activated for node ${nodeId}. Messages: ${matchedMessages.length}, bulk: ${bulk}`);
+
+                    // Send placeholder message if configured
+                    if (parameters.placeholder && parameters.placeholder.trim() !== '') {
+                        sendPlaceholderMessage(nodeId, matchedMessages[0].channel as TextChannel, parameters.placeholder);
+                    }
+
+                    // A bulk delete runs the workflow once with one item per deleted message
+                    emitTriggerEvent(bulk ? 'messageDeleteBulk' : 'messageDelete', nodeId, matchedMessages.map((message) => ({
+                        event: 'delete',
+                        bulk,
+                        id: message.id,
+                        cached: !message.partial,
+                        content: message.content,
+                        channelId: message.channelId,
+                        guildId: message.guildId,
+                        isDM: !message.guildId,
+                        authorId: message.author?.id ?? null,
+                        authorName: message.author?.username ?? null,
+                        timestamp: message.createdTimestamp,
+                        deletedTimestamp: Date.now(),
+                        attachments: formatAttachments(message),
+                    })));
+                } catch (e) {
+                    console.error(`Error processing message delete for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in message delete handler:', error);
+        }
+    }
+
+    // Helper function to setup reaction add/remove handlers for a client
+    function setupClientReactionHandler(client: Client): void {
+        client.on('messageReactionAdd', async (reaction, user) => {
+            await handleReaction(client, reaction, user, 'add');
+        });
+
+        client.on('messageReactionRemove', async (reaction, user) => {
+            await handleReaction(client, reaction, user, 'remove');
+        });
+    }
+
+    // Check whether a reaction emoji matches one of the configured emojis
+    // Standard emojis are matched by their unicode character, custom emojis by name, ID or <:name:ID> form
+    function matchesEmoji(reaction: MessageReaction, emojis: string[]): boolean {
+        const { id, name } = reaction.emoji;
+        return emojis.some((emoji) => {
+            const customEmoji = /^<?a?:?([\w~]+):(\d+)>?$/.exec(emoji);
+            if (customEmoji) {
+                return id === customEmoji[2];
+            }
+            return emoji === name || (id !== null && emoji === id);
+        });
+    }
+
+    async function handleReaction(
+        client: Client,
+        partialReaction: MessageReaction | PartialMessageReaction,
+        partialUser: User | PartialUser,
+        action: 'add' | 'remove',
+    ): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'reaction');
+            if (relevantNodeIds.length === 0) return;
+
+            // Reactions on uncached messages are received as partials, fetch the missing data
+            const reaction = partialReaction.partial ? await partialReaction.fetch() : partialReaction;
+            const message = reaction.message.partial ? await reaction.message.fetch() : reaction.message;
+            const user = partialUser.partial ? await partialUser.fetch() : partialUser;
+
+            // Resolve the member only once, when at least one node filters by role
+            let memberRoles: string[] | null = null;
+
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    const reactionEvents = parameters.reactionEvents?.length ? parameters.reactionEvents : ['add', 'remove'];
+                    if (!reactionEvents.includes(action)) continue;
+
+                    // Check if this node should process bot reactions
+                    if (ignoresUser(client, parameters, user)) continue;
+
+                    // Check message restrictions for this specific node
+                    const messageIds = splitListParameter(parameters.reactionMessageIds);
+                    if (messageIds.length && !messageIds.includes(message.id)) continue;
+
+                    // Check emoji restrictions for this specific node
+                    const emojis = splitListParameter(parameters.emojis);
+                    if (emojis.length && !matchesEmoji(reaction, emojis)) continue;
+
+                    // The roles of the reacting member are only fetched when a node is restricted to roles
+                    if (parameters.roleIds && parameters.roleIds.length && memberRoles === null) {
+                        const member = await message.guild?.members.fetch(user.id).catch(() => null);
+                        memberRoles = member ? member.roles.cache.map((role) => role.id) : [];
+                    }
+
+                    // Check guild, channel and role restrictions for this specific node
+                    if (!matchesNodeRestrictions(parameters, {
+                        guildId: message.guildId,
+                        channel: message.channel,
+                        channelId: message.channelId,
+                        memberRoles: memberRoles ?? [],
+                    })) continue;
+
+                    console.log(`Reaction trigger activated for node ${nodeId}. Action: ${action}, emoji: ${reaction.emoji.name}, message: ${message.id}`);
+
+                    // Send placeholder message if configured
+                    if (parameters.placeholder && parameters.placeholder.trim() !== '') {
+                        sendPlaceholderMessage(nodeId, message.channel as TextChannel, parameters.placeholder);
+                    }
+
+                    emitTriggerEvent(action === 'add' ? 'messageReactionAdd' : 'messageReactionRemove', nodeId, {
+                        action,
+                        emoji: {
+                            id: reaction.emoji.id,
+                            name: reaction.emoji.name,
+                            animated: reaction.emoji.animated ?? false,
+                            identifier: reaction.emoji.identifier,
+                        },
+                        count: reaction.count,
+                        userId: user.id,
+                        userName: user.username,
+                        userIsBot: user.bot || user.system,
+                        messageId: message.id,
+                        messageContent: message.content,
+                        messageAuthorId: message.author?.id ?? null,
+                        messageAuthorName: message.author?.username ?? null,
+                        messageTimestamp: message.createdTimestamp,
+                        channelId: message.channelId,
+                        guildId: message.guildId,
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing reaction for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in reaction handler:', error);
+        }
+    }
+
+    // Helper function to setup interaction handler for a client
+    function setupClientInteractionHandler(client: Client): void {
+        client.on('interactionCreate', async (interaction: Interaction) => {
+            try {
+                if (interaction.isButton() || interaction.isAnySelectMenu()) {
+                    await handleComponentInteraction(client, interaction);
+                }
+                else if (interaction.isChatInputCommand()) {
+                    await handleSlashCommand(client, interaction);
+                }
+                else if (interaction.isModalSubmit()) {
+                    await handleModalSubmit(client, interaction);
+                }
+                else if (interaction.isContextMenuCommand()) {
+                    await handleContextMenuCommand(client, interaction);
+                }
+            } catch (error) {
+                console.error('Error in interaction handler:', error);
+            }
+        });
+    }
+
+    // Helper function to get the role IDs of the member behind an interaction
+    function getInteractionMemberRoles(interaction: BaseInteraction): string[] {
+        if (!interaction.member) return [];
+        return Array.isArray(interaction.member.roles)
+            ? interaction.member.roles
+            : interaction.member.roles.cache.map((role) => role.id);
+    }
+
+    // Helper function to acknowledge an interaction once for a trigger node, so Discord does not report it as failed
+    async function autoAcknowledgeInteraction(
+        parameters: ITriggerNode['parameters'],
+        interaction: MessageComponentInteraction | ModalSubmitInteraction | ChatInputCommandInteraction | ContextMenuCommandInteraction,
+        acknowledge: () => Promise<unknown>,
+    ): Promise<void> {
+        if (parameters.autoAcknowledge === false || interaction.deferred || interaction.replied) return;
+        await acknowledge().catch((error) => {
+            console.error(`Error acknowledging interaction ${interaction.id}:`, error);
+        });
+    }
+
+    async function handleComponentInteraction(client: Client, interaction: MessageComponentInteraction): Promise<void> {
+        const relevantNodeIds = getRelevantNodeIds(client, 'interaction');
+        if (relevantNodeIds.length === 0) return;
+
+        const memberRoles = getInteractionMemberRoles(interaction);
+        const { message, user } = interaction;
+
+        for (const nodeId of relevantNodeIds) {
+            try {
+                const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                if (!parameters) continue;
+
+                // Check message restrictions for this specific node
+                if (parameters.interactionMessageId && parameters.interactionMessageId.trim() !== message.id) continue;
+
+                // Check custom ID restrictions for this specific node
+                if (parameters.customIdPrefix && !interaction.customId.startsWith(parameters.customIdPrefix)) continue;
+
+                // Check guild, channel and role restrictions for this specific node
+                if (!matchesNodeRestrictions(parameters, {
+                    guildId: interaction.guildId,
+                    channel: interaction.channel,
+                    channelId: interaction.channelId,
+                    memberRoles,
+                })) continue;
+
+                // Acknowledge the interaction once, so Discord does not report it as failed
+                await autoAcknowledgeInteraction(parameters, interaction, () => interaction.deferUpdate());
+
+                console.log(`Interaction trigger activated for node ${nodeId}. Custom ID: ${interaction.customId}, message: ${message.id}`);
+
+                // Send placeholder message if configured
+                if (parameters.placeholder && parameters.placeholder.trim() !== '' && interaction.channel) {
+                    sendPlaceholderMessage(nodeId, interaction.channel as TextChannel, parameters.placeholder);
+                }
+
+                emitTriggerEvent('interactionCreate', nodeId, {
+                    interactionId: interaction.id,
+                    interactionToken: interaction.token,
+                    applicationId: interaction.applicationId,
+                    componentType: ComponentType[interaction.componentType],
+                    customId: interaction.customId,
+                    values: interaction.isAnySelectMenu() ? interaction.values : [],
+                    acknowledged: interaction.deferred || interaction.replied,
+                    userId: user.id,
+                    userName: user.username,
+                    memberRoles,
+                    messageId: message.id,
+                    messageContent: message.content,
+                    messageAuthorId: message.author?.id ?? null,
+                    messageAuthorName: message.author?.username ?? null,
+                    channelId: interaction.channelId,
+                    guildId: interaction.guildId,
+                    timestamp: interaction.createdTimestamp,
+                });
+            } catch (e) {
+                console.error(`Error processing interaction for node ${nodeId}:`, e);
+            }
+        }
+    }
+
+    async function handleModalSubmit(client: Client, interaction: ModalSubmitInteraction): Promise<void> {
+        const relevantNodeIds = getRelevantNodeIds(client, 'modalSubmit');
+        if (relevantNodeIds.length === 0) return;
+
+        const memberRoles = getInteractionMemberRoles(interaction);
+        const { user } = interaction;
+        const fields = interaction.fields.fields.map((field) => ({
+            customId: field.customId,
+            value: interaction.fields.getTextInputValue(field.customId),
+        }));
+
+        for (const nodeId of relevantNodeIds) {
+            try {
+                const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                if (!parameters) continue;
+
+                // Check custom ID restrictions for this specific node
+                if (parameters.customIdPrefix && !interaction.customId.startsWith(parameters.customIdPrefix)) continue;
+
+                // Check guild, channel and role restrictions for this specific node
+                if (!matchesNodeRestrictions(parameters, {
+                    guildId: interaction.guildId,
+                    channel: interaction.channel,
+                    channelId: interaction.channelId,
+                    memberRoles,
+                })) continue;
+
+                // Acknowledge the submission once, modals opened from a message component can be deferred as an update
+                await autoAcknowledgeInteraction(parameters, interaction, () =>
+                    interaction.isFromMessage() ? interaction.deferUpdate() : interaction.deferReply()
+                );
+
+                console.log(`Modal trigger activated for node ${nodeId}. Custom ID: ${interaction.customId}`);
+
+                emitTriggerEvent('interactionCreate', nodeId, {
+                    interactionId: interaction.id,
+                    interactionToken: interaction.token,
+                    applicationId: interaction.applicationId,
+                    customId: interaction.customId,
+                    fields,
+                    values: Object.fromEntries(fields.map((field) => [field.customId, field.value])),
+                    acknowledged: interaction.deferred || interaction.replied,
+                    userId: user.id,
+                    userName: user.username,
+                    memberRoles,
+                    messageId: interaction.message?.id ?? null,
+                    channelId: interaction.channelId,
+                    guildId: interaction.guildId,
+                    timestamp: interaction.createdTimestamp,
+                });
+            } catch (e) {
+                console.error(`Error processing modal submission for node ${nodeId}:`, e);
+            }
+        }
+    }
+
+    // Map of the option types available in the slash command node parameters
+    const commandOptionTypes: { [type: string]: ApplicationCommandOptionType } = {
+        string: ApplicationCommandOptionType.String,
+        integer: ApplicationCommandOptionType.Integer,
+        boolean: ApplicationCommandOptionType.Boolean,
+        user: ApplicationCommandOptionType.User,
+        channel: ApplicationCommandOptionType.Channel,
+        role: ApplicationCommandOptionType.Role,
+        attachment: ApplicationCommandOptionType.Attachment,
+    };
+
+    // Function to build the slash command payload from the node parameters
+    function buildSlashCommand(parameters: ITriggerNode['parameters']): Record<string, any> {
+        const options = (parameters.commandOptions?.option || []).map((option) => {
+            const type = commandOptionTypes[option.type] ?? ApplicationCommandOptionType.String;
+
+            // Choices are only supported by string and integer options
+            const choices = [ApplicationCommandOptionType.String, ApplicationCommandOptionType.Integer].includes(type)
+                ? splitListParameter(option.choices).map((choice) => {
+                    const [name, value] = choice.includes('=') ? choice.split('=').map((part) => part.trim()) : [choice, choice];
+                    return {
+                        name,
+                        value: type === ApplicationCommandOptionType.Integer ? parseInt(value, 10) : value,
+                    };
+                })
+                : [];
+
+            return {
+                type,
+                name: String(option.name).trim().toLowerCase(),
+                description: option.description || option.name,
+                required: Boolean(option.required),
+                choices: choices.length ? choices : undefined,
+            };
+        });
+
+        return {
+            type: ApplicationCommandType.ChatInput,
+            name: String(parameters.commandName || '').trim().toLowerCase(),
+            description: parameters.commandDescription || String(parameters.commandName),
+            // Discord requires required options to be listed before optional ones
+            options: [...options.filter((option) => option.required), ...options.filter((option) => !option.required)],
+        };
+    }
+
+    // Function to build the context menu command payload from the node parameters
+    function buildContextMenuCommand(parameters: ITriggerNode['parameters']): Record<string, any> {
+        return {
+            type: parameters.contextMenuType === 'user' ? ApplicationCommandType.User : ApplicationCommandType.Message,
+            name: String(parameters.contextMenuName || '').trim(),
+        };
+    }
+
+    // Function to register an application command for a node, in the selected guilds or globally
+    // Every created command is recorded right away, so a failed registration can still be cleaned up
+    async function registerApplicationCommand(
+        nodeId: string,
+        credentialHash: string,
+        command: Record<string, any>,
+        signal?: AbortSignal,
+    ): Promise<void> {
+        const client = clients[credentialHash];
+        const botInstance = settings.botInstances[credentialHash] as IBotInstance | undefined;
+        if (!client || !botInstance) {
+            throw new Error(`No client found for credential hash ${credentialHash}`);
+        }
+
+        const applicationId = client.application?.id || botInstance.clientId;
+        const guildIds: string[] = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters.guildIds || [];
+        const registration: { credentialHash: string; commands: { guildId: string | null; commandId: string }[] } = {
+            credentialHash,
+            commands: [],
+        };
+        registeredCommands[nodeId] = registration;
+
+        for (const guildId of guildIds.length ? guildIds : [null]) {
+            const route = guildId
+                ? Routes.applicationGuildCommands(applicationId, guildId)
+                : Routes.applicationCommands(applicationId);
+            const registered = await client.rest.post(route, { body: command, signal }) as { id: string };
+            registration.commands.push({ guildId, commandId: registered.id });
+            console.log(`Registered command ${command.name} for node ${nodeId} ${guildId ? `in guild ${guildId}` : 'globally'}`);
+        }
+    }
+
+    // Function to remove the application commands registered by a node
+    // Everything needed is read before the first await, the deletions use their own REST instance
+    // so they still complete if the client is destroyed in the meantime
+    async function unregisterApplicationCommands(nodeId: string): Promise<void> {
+        const registration = registeredCommands[nodeId];
+        if (!registration) return;
+        delete registeredCommands[nodeId];
+
+        const client = clients[registration.credentialHash];
+        const botInstance = settings.botInstances[registration.credentialHash] as IBotInstance | undefined;
+        if (!client || !botInstance) return;
+
+        const applicationId = client.application?.id || botInstance.clientId;
+        const token = client.token || botInstance.token;
+        if (!token) return;
+        const rest = new REST().setToken(token);
+
+        for (const { guildId, commandId } of registration.commands) {
+            // Keep the command if another node registered the same one in the meantime
+            const stillUsed = Object.values(registeredCommands).some((other) =>
+                other.commands.some((command) => command.commandId === commandId)
+            );
+            if (stillUsed) continue;
+
+            try {
+                const route = guildId
+                    ? Routes.applicationGuildCommand(applicationId, guildId, commandId)
+                    : Routes.applicationCommand(applicationId, commandId);
+                await rest.delete(route);
+                console.log(`Unregistered command ${commandId} for node ${nodeId}`);
+            } catch (error) {
+                console.error(`Error unregistering command ${commandId}:`, error);
+            }
+        }
+    }
+
+    // Function to convert the options of a command interaction into typed JSON
+    function formatCommandOptions(options: readonly CommandInteractionOption[]): Record<string, any> {
+        const result: Record<string, any> = {};
+
+        for (const option of options) {
+            switch (option.type) {
+                case ApplicationCommandOptionType.Subcommand:
+                case ApplicationCommandOptionType.SubcommandGroup:
+                    result[option.name] = formatCommandOptions(option.options || []);
+                    break;
+                case ApplicationCommandOptionType.User:
+                    result[option.name] = option.user ? {
+                        id: option.user.id,
+                        username: option.user.username,
+                        bot: option.user.bot,
+                    } : option.value;
+                    break;
+                case ApplicationCommandOptionType.Channel:
+                    result[option.name] = option.channel ? {
+                        id: option.channel.id,
+                        name: 'name' in option.channel ? option.channel.name : null,
+                        type: option.channel.type,
+                    } : option.value;
+                    break;
+                case ApplicationCommandOptionType.Role:
+                    result[option.name] = option.role ? {
+                        id: option.role.id,
+                        name: option.role.name,
+                    } : option.value;
+                    break;
+                case ApplicationCommandOptionType.Attachment:
+                    result[option.name] = option.attachment ? {
+                        id: option.attachment.id,
+                        url: option.attachment.url,
+                        filename: option.attachment.name,
+                        contentType: option.attachment.contentType,
+                        size: option.attachment.size,
+                    } : option.value;
+                    break;
+                default:
+                    result[option.name] = option.value ?? null;
+            }
+        }
+
+        return result;
+    }
+
+    async function handleSlashCommand(client: Client, interaction: ChatInputCommandInteraction): Promise<void> {
+        const relevantNodeIds = getRelevantNodeIds(client, 'slashCommand');
+        if (relevantNodeIds.length === 0) return;
+
+        const memberRoles = getInteractionMemberRoles(interaction);
+        const { user } = interaction;
+
+        for (const nodeId of relevantNodeIds) {
+            try {
+                const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                if (!parameters) continue;
+
+                if (String(parameters.commandName || '').trim().toLowerCase() !== interaction.commandName) continue;
+
+                // Check guild, channel and role restrictions for this specific node
+                if (!matchesNodeRestrictions(parameters, {
+                    guildId: interaction.guildId,
+                    channel: interaction.channel,
+                    channelId: interaction.channelId,
+                    memberRoles,
+                })) continue;
+
+                // Acknowledge the command once, the workflow can then edit the deferred reply using the token
+                await autoAcknowledgeInteraction(parameters, interaction, () => interaction.deferReply());
+
+                console.log(`Slash command trigger activated for node ${nodeId}. Command: ${interaction.commandName}`);
+
+                emitTriggerEvent('interactionCreate', nodeId, {
+                    interactionId: interaction.id,
+                    interactionToken: interaction.token,
+                    applicationId: interaction.applicationId,
+                    commandId: interaction.commandId,
+                    commandName: interaction.commandName,
+                    options: formatCommandOptions(interaction.options.data),
+                    acknowledged: interaction.deferred || interaction.replied,
+                    userId: user.id,
+                    userName: user.username,
+                    memberRoles,
+                    channelId: interaction.channelId,
+                    guildId: interaction.guildId,
+                    timestamp: interaction.createdTimestamp,
+                });
+            } catch (e) {
+                console.error(`Error processing slash command for node ${nodeId}:`, e);
+            }
+        }
+    }
+
+    // Invite used by a new member to join a guild
+    interface IJoinInvite {
+        code: string;
+        inviterId: string | null;
+        inviterName: string | null;
+        uses: number;
+        maxUses: number;
+    }
+
+    // Function to store the current invite uses of a guild, returns the previous ones
+    async function cacheGuildInvites(client: Client, guild: Guild): Promise<typeof inviteUses[string] | null> {
+        const key = `${client.user?.id}_${guild.id}`;
+        const previous = inviteUses[key] ?? null;
+
+        try {
+            const invites = await guild.invites.fetch();
+            inviteUses[key] = {};
+            for (const invite of invites.values()) {
+                inviteUses[key][invite.code] = {
+                    uses: invite.uses ?? 0,
+                    maxUses: invite.maxUses ?? 0,
+                    inviterId: invite.inviterId,
+                    inviterName: invite.inviter?.username ?? null,
+                };
+            }
+        } catch (error) {
+            // Fetching invites requires the Manage Server permission
+            console.log(`Unable to fetch invites for guild ${guild.id}: ${error.message}`);
+            delete inviteUses[key];
+        }
+
+        return previous;
+    }
+
+    // Function to find the invite used by a new member by comparing the invite uses before and after the join
+    async function resolveJoinInvite(client: Client, guild: Guild): Promise<IJoinInvite | null> {
+        const previous = await cacheGuildInvites(client, guild);
+        const current = inviteUses[`${client.user?.id}_${guild.id}`];
+        if (!previous || !current) return null;
+
+        const usedCode = Object.keys(current).find((code) => current[code].uses > (previous[code]?.uses ?? 0));
+        if (usedCode) {
+            return { code: usedCode, ...current[usedCode] };
+        }
+
+        // An invite reaching its max uses is deleted, it is the used one if it is the only one missing
+        // that was one use away from its max uses, other deleted invites are removed from the cache on inviteDelete
+        const missingCodes = Object.keys(previous).filter((code) =>
+            !current[code] && previous[code].maxUses > 0 && previous[code].uses + 1 === previous[code].maxUses
+        );
+        if (missingCodes.length === 1) {
+            const code = missingCodes[0];
+            return { code, ...previous[code], uses: previous[code].uses + 1 };
+        }
+
+        return null;
+    }
+
+    // Function to check if a node needs the invite uses, to report the invite used by new members
+    function usesJoinInvites(parameters: ITriggerNode['parameters']): boolean {
+        if (parameters.type === 'invite') return true;
+        return parameters.type === 'member' && (!parameters.memberEvents?.length || parameters.memberEvents.includes('join'));
+    }
+
+    // Function to check if an invite or member join trigger of a client needs the invite uses
+    function isTrackingInvites(client: Client): boolean {
+        return [...getRelevantNodeIds(client, 'invite'), ...getRelevantNodeIds(client, 'member')].some((nodeId) => {
+            const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+            return parameters && usesJoinInvites(parameters);
+        });
+    }
+
+    // Function to store the current invite uses of every guild of a client, when a trigger uses them
+    async function cacheClientInvites(client: Client): Promise<void> {
+        if (!isTrackingInvites(client)) return;
+
+        for (const guild of client.guilds.cache.values()) {
+            await cacheGuildInvites(client, guild);
+        }
+    }
+
+    // Helper function to setup invite handlers for a client
+    function setupClientInviteHandler(client: Client): void {
+        client.once('ready', async () => {
+            await cacheClientInvites(client);
+        });
+
+        client.on('guildCreate', async (guild: Guild) => {
+            if (!isTrackingInvites(client)) return;
+            await cacheGuildInvites(client, guild);
+        });
+
+        client.on('guildDelete', (guild: Guild) => {
+            delete inviteUses[`${client.user?.id}_${guild.id}`];
+        });
+
+        client.on('inviteCreate', async (invite: Invite) => {
+            if (invite.guild) {
+                const key = `${client.user?.id}_${invite.guild.id}`;
+                if (inviteUses[key]) {
+                    inviteUses[key][invite.code] = {
+                        uses: invite.uses ?? 0,
+                        maxUses: invite.maxUses ?? 0,
+                        inviterId: invite.inviterId,
+                        inviterName: invite.inviter?.username ?? null,
+                    };
+                }
+            }
+            await handleInviteEvent(client, invite, 'create');
+        });
+
+        client.on('inviteDelete', async (invite: Invite) => {
+            // Keep an invite deleted by its last use until the join of the member is resolved
+            if (invite.guild) {
+                const cached = inviteUses[`${client.user?.id}_${invite.guild.id}`]?.[invite.code];
+                if (cached && !(cached.maxUses > 0 && cached.uses + 1 === cached.maxUses)) {
+                    delete inviteUses[`${client.user?.id}_${invite.guild.id}`][invite.code];
+                }
+            }
+            await handleInviteEvent(client, invite, 'delete');
+        });
+    }
+
+    async function handleInviteEvent(client: Client, invite: Invite, event: 'create' | 'delete'): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'invite');
+            if (relevantNodeIds.length === 0) return;
+
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    const inviteEvents = parameters.inviteEvents?.length ? parameters.inviteEvents : ['create', 'delete', 'use'];
+                    if (!inviteEvents.includes(event)) continue;
+
+                    // Check guild restrictions for this specific node
+                    if (!matchesNodeRestrictions(parameters, { guildId: invite.guild?.id ?? null })) continue;
+
+                    console.log(`Invite trigger activated for node ${nodeId}. Event: ${event}, code: ${invite.code}`);
+
+                    emitTriggerEvent(event === 'create' ? 'inviteCreate' : 'inviteDelete', nodeId, {
+                        event,
+                        code: invite.code,
+                        url: invite.url,
+                        guildId: invite.guild?.id ?? null,
+                        channelId: invite.channelId,
+                        inviterId: invite.inviterId,
+                        inviterName: invite.inviter?.username ?? null,
+                        uses: invite.uses,
+                        maxUses: invite.maxUses,
+                        maxAge: invite.maxAge,
+                        temporary: invite.temporary,
+                        expiresTimestamp: invite.expiresTimestamp,
+                        createdTimestamp: invite.createdTimestamp,
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing invite for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in invite handler:', error);
+        }
+    }
+
+    async function handleInviteUse(client: Client, member: GuildMember, invite: IJoinInvite | null): Promise<void> {
+        try {
+            if (!invite) return;
+
+            const relevantNodeIds = getRelevantNodeIds(client, 'invite');
+            if (relevantNodeIds.length === 0) return;
+
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    const inviteEvents = parameters.inviteEvents?.length ? parameters.inviteEvents : ['create', 'delete', 'use'];
+                    if (!inviteEvents.includes('use')) continue;
+
+                    // Check guild restrictions for this specific node
+                    if (!matchesNodeRestrictions(parameters, { guildId: member.guild.id })) continue;
+
+                    console.log(`Invite trigger activated for node ${nodeId}. Event: use, code: ${invite.code}, member: ${member.id}`);
+
+                    emitTriggerEvent('inviteUse', nodeId, {
+                        event: 'use',
+                        code: invite.code,
+                        guildId: member.guild.id,
+                        inviterId: invite.inviterId,
+                        inviterName: invite.inviterName,
+                        uses: invite.uses,
+                        memberId: member.id,
+                        memberName: member.user.username,
+                        memberIsBot: member.user.bot,
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing invite use for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in invite use handler:', error);
+        }
+    }
+
+    // Helper function to setup member join/leave/update handlers for a client
+    function setupClientMemberHandler(client: Client): void {
+        client.on('guildMemberAdd', async (member) => {
+            // The invite uses are compared on every join while an invite or member join trigger is registered
+            const invite = isTrackingInvites(client)
+                ? await resolveJoinInvite(client, member.guild)
+                : null;
+            await handleMemberEvent(client, 'join', member, undefined, invite);
+            await handleInviteUse(client, member, invite);
+        });
+
+        client.on('guildMemberRemove', async (member) => {
+            await handleMemberEvent(client, 'leave', member);
+        });
+
+        client.on('guildMemberUpdate', async (oldMember, newMember) => {
+            await handleMemberEvent(client, 'update', newMember, oldMember);
+        });
+    }
+
+    async function handleMemberEvent(
+        client: Client,
+        event: 'join' | 'leave' | 'update',
+        member: GuildMember | PartialGuildMember,
+        oldMember?: GuildMember | PartialGuildMember,
+        invite?: IJoinInvite | null,
+    ): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'member');
+            if (relevantNodeIds.length === 0) return;
+
+            const roles = member.roles.cache.filter((role) => role.id !== member.guild.id).map((role) => role.id);
+            // Roles of a partial old member are unknown, in that case no role diff is reported
+            const oldRoles = oldMember && !oldMember.partial
+                ? oldMember.roles.cache.filter((role) => role.id !== member.guild.id).map((role) => role.id)
+                : roles;
+            const rolesAdded = roles.filter((role) => !oldRoles.includes(role));
+            const rolesRemoved = oldRoles.filter((role) => !roles.includes(role));
+
+            const oldNickname = oldMember ? oldMember.nickname : member.nickname;
+            const oldPending = oldMember ? oldMember.pending : member.pending;
+            const oldTimeout = oldMember ? oldMember.communicationDisabledUntilTimestamp : member.communicationDisabledUntilTimestamp;
+
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    const memberEvents = parameters.memberEvents?.length ? parameters.memberEvents : ['join', 'leave', 'update'];
+                    if (!memberEvents.includes(event)) continue;
+
+                    // Check if this node should process bot members
+                    if (ignoresUser(client, parameters, member.user)) continue;
+
+                    // Check guild and role restrictions for this specific node, a removed role still matches
+                    if (!matchesNodeRestrictions(parameters, { guildId: member.guild.id, memberRoles: [...roles, ...oldRoles] })) continue;
+
+                    console.log(`Member trigger activated for node ${nodeId}. Event: ${event}, member: ${member.id}, guild: ${member.guild.name} (${member.guild.id})`);
+
+                    emitTriggerEvent({ join: 'guildMemberAdd', leave: 'guildMemberRemove', update: 'guildMemberUpdate' }[event], nodeId, {
+                        event,
+                        userId: member.id,
+                        userName: member.user.username,
+                        displayName: member.displayName,
+                        userIsBot: member.user.bot || member.user.system,
+                        guildId: member.guild.id,
+                        guildName: member.guild.name,
+                        roles,
+                        rolesAdded,
+                        rolesRemoved,
+                        nickname: member.nickname,
+                        oldNickname,
+                        nicknameChanged: oldNickname !== member.nickname,
+                        pending: member.pending,
+                        oldPending,
+                        pendingChanged: oldPending !== member.pending,
+                        timeoutUntil: member.communicationDisabledUntilTimestamp,
+                        oldTimeoutUntil: oldTimeout,
+                        timeoutChanged: oldTimeout !== member.communicationDisabledUntilTimestamp,
+                        joinedTimestamp: member.joinedTimestamp,
+                        invite: invite ?? null,
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing member event for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in member handler:', error);
+        }
+    }
+
+    // Helper function to setup thread handler for a client
+    function setupClientThreadHandler(client: Client): void {
+        client.on('threadCreate', async (thread: AnyThreadChannel, newlyCreated: boolean) => {
+            // The event is also emitted when the bot is added to an existing thread
+            if (!newlyCreated) return;
+
+            try {
+                const relevantNodeIds = getRelevantNodeIds(client, 'thread');
+                if (relevantNodeIds.length === 0) return;
+
+                const parent = thread.parent;
+                const isForumPost = parent?.type === ChannelType.GuildForum;
+                const availableTags = isForumPost ? (parent as ForumChannel).availableTags : [];
+                const appliedTags = availableTags
+                    .filter((tag) => thread.appliedTags.includes(tag.id))
+                    .map((tag) => ({
+                        id: tag.id,
+                        name: tag.name,
+                        emoji: tag.emoji?.name ?? null,
+                    }));
+
+                // The starter message may not be available right away, nor at all for private threads
+                const starterMessage = await thread.fetchStarterMessage().catch(() => null);
+                const owner = thread.ownerId ? await client.users.fetch(thread.ownerId).catch(() => null) : null;
+
+                for (const nodeId of relevantNodeIds) {
+                    try {
+                        const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                        if (!parameters) continue;
+
+                        // Check if this node should process threads created by bots
+                        if (ignoresUser(client, parameters, owner, thread.ownerId)) continue;
+
+                        // Check guild and parent channel restrictions for this specific node
+                        if (!matchesNodeRestrictions(parameters, { guildId: thread.guildId, channel: thread })) continue;
+
+                        // Check forum tag restrictions for this specific node, by tag name or ID
+                        const forumTags = splitListParameter(parameters.forumTags).map((tag) => tag.toLowerCase());
+                        if (forumTags.length) {
+                            const hasTag = appliedTags.some((tag) =>
+                                forumTags.includes(tag.id) || forumTags.includes(tag.name.toLowerCase())
+                            );
+                            if (!hasTag) continue;
+                        }
+
+                        console.log(`Thread trigger activated for node ${nodeId}. Thread: ${thread.name} (${thread.id}), parent: ${thread.parentId}`);
+
+                        // Send placeholder message if configured
+                        if (parameters.placeholder && parameters.placeholder.trim() !== '') {
+                            sendPlaceholderMessage(nodeId, thread as unknown as TextChannel, parameters.placeholder);
+                        }
+
+                        emitTriggerEvent('threadCreate', nodeId, {
+                            threadId: thread.id,
+                            threadName: thread.name,
+                            threadType: ChannelType[thread.type],
+                            isForumPost,
+                            parentId: thread.parentId,
+                            parentName: parent?.name ?? null,
+                            guildId: thread.guildId,
+                            ownerId: thread.ownerId,
+                            ownerName: owner?.username ?? null,
+                            appliedTags,
+                            starterMessageId: starterMessage?.id ?? null,
+                            starterMessageContent: starterMessage?.content ?? null,
+                            starterMessageAttachments: starterMessage ? formatAttachments(starterMessage) : [],
+                            timestamp: thread.createdTimestamp,
+                        });
+                    } catch (e) {
+                        console.error(`Error processing thread for node ${nodeId}:`, e);
+                    }
+                }
+            } catch (error) {
+                console.error('Error in thread handler:', error);
+            }
+        });
+    }
+
+    // Function to list the voice events between two voice states of a member
+    function getVoiceEvents(oldState: VoiceState, newState: VoiceState): string[] {
+        const events: string[] = [];
+
+        if (!oldState.channelId && newState.channelId) events.push('join');
+        else if (oldState.channelId && !newState.channelId) events.push('leave');
+        else if (oldState.channelId !== newState.channelId) events.push('move');
+
+        // Mute and deafen states are only compared while the member stays connected
+        if (oldState.channelId && newState.channelId) {
+            if (!oldState.mute && newState.mute) events.push('mute');
+            else if (oldState.mute && !newState.mute) events.push('unmute');
+
+            if (!oldState.deaf && newState.deaf) events.push('deafen');
+            else if (oldState.deaf && !newState.deaf) events.push('undeafen');
+        }
+
+        if (!oldState.streaming && newState.streaming) events.push('streamStart');
+        else if (oldState.streaming && !newState.streaming) events.push('streamStop');
+
+        return events;
+    }
+
+    // Helper function to setup voice state handler for a client
+    function setupClientVoiceHandler(client: Client): void {
+        client.on('voiceStateUpdate', async (oldState: VoiceState, newState: VoiceState) => {
+            try {
+                const relevantNodeIds = getRelevantNodeIds(client, 'voice');
+                if (relevantNodeIds.length === 0) return;
+
+                const voiceEvents = getVoiceEvents(oldState, newState);
+                if (voiceEvents.length === 0) return;
+
+                const member = newState.member ?? oldState.member;
+                if (!member) return;
+
+                const memberRoles = member.roles.cache.map((role) => role.id);
+
+                for (const nodeId of relevantNodeIds) {
+                    try {
+                        const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                        if (!parameters) continue;
+
+                        const listenedEvents = parameters.voiceEvents?.length ? parameters.voiceEvents : ['join', 'leave', 'move'];
+                        const events = voiceEvents.filter((event) => listenedEvents.includes(event));
+                        if (events.length === 0) continue;
+
+                        // Check if this node should process bot members
+                        if (ignoresUser(client, parameters, member.user)) continue;
+
+                        // Check guild and role restrictions for this specific node
+                        if (!matchesNodeRestrictions(parameters, { guildId: newState.guild.id, memberRoles })) continue;
+
+                        // Check voice channel restrictions for this specific node, before or after the update
+                        if (parameters.voiceChannelIds && parameters.voiceChannelIds.length) {
+                            const isInChannel = parameters.voiceChannelIds.some((channelId: string) =>
+                                channelId === oldState.channelId || channelId === newState.channelId
+                            );
+                            if (!isInChannel) continue;
+                        }
+
+                        console.log(`Voice trigger activated for node ${nodeId}. Events: ${events.join(', ')}, member: ${member.id}`);
+
+                        emitTriggerEvent('voiceStateUpdate', nodeId, {
+                            event: events[0],
+                            events,
+                            userId: member.id,
+                            userName: member.user.username,
+                            displayName: member.displayName,
+                            memberRoles,
+                            guildId: newState.guild.id,
+                            oldChannelId: oldState.channelId,
+                            oldChannelName: oldState.channel?.name ?? null,
+                            newChannelId: newState.channelId,
+                            newChannelName: newState.channel?.name ?? null,
+                            selfMute: newState.selfMute,
+                            serverMute: newState.serverMute,
+                            selfDeaf: newState.selfDeaf,
+                            serverDeaf: newState.serverDeaf,
+                            streaming: newState.streaming,
+                            selfVideo: newState.selfVideo,
+                            sessionId: newState.sessionId,
+                            timestamp: Date.now(),
+                        });
+                    } catch (e) {
+                        console.error(`Error processing voice state for node ${nodeId}:`, e);
+                    }
+                }
+            } catch (error) {
+                console.error('Error in voice state handler:', error);
+            }
+        });
+    }
+
+    // Function to format an activity for workflow execution
+    function formatActivity(activity: Activity): Record<string, any> {
+        return {
+            type: ActivityType[activity.type],
+            name: activity.name,
+            details: activity.details,
+            state: activity.state,
+            url: activity.url,
+            startedTimestamp: activity.timestamps?.start?.getTime() ?? null,
+        };
+    }
+
+    // Function to format a presence snapshot for workflow execution
+    function formatPresence(presence: Presence | null): Record<string, any> | null {
+        if (!presence) return null;
+        return {
+            status: presence.status,
+            clientStatus: presence.clientStatus,
+            activities: presence.activities.map(formatActivity),
+        };
+    }
+
+    // Helper function to setup presence handler for a client
+    function setupClientPresenceHandler(client: Client): void {
+        client.on('presenceUpdate', async (oldPresence: Presence | null, newPresence: Presence) => {
+            try {
+                const relevantNodeIds = getRelevantNodeIds(client, 'presence');
+                if (relevantNodeIds.length === 0) return;
+
+                const member = newPresence.member;
+                if (!member || !newPresence.guild) return;
+
+                const oldStatus = oldPresence?.status ?? 'offline';
+                const newStatus = newPresence.status;
+                const memberRoles = member.roles.cache.map((role) => role.id);
+
+                for (const nodeId of relevantNodeIds) {
+                    try {
+                        const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                        if (!parameters) continue;
+
+                        // Check if this node should process bot members
+                        if (ignoresUser(client, parameters, member.user)) continue;
+
+                        // Check guild and role restrictions for this specific node
+                        if (!matchesNodeRestrictions(parameters, { guildId: newPresence.guild.id, memberRoles })) continue;
+
+                        // The new status always has to match the selected statuses
+                        if (parameters.toStatuses?.length && !parameters.toStatuses.includes(newStatus)) continue;
+
+                        const activityTypes = parameters.activityTypes || [];
+                        const activityName = String(parameters.activityName || '').trim().toLowerCase();
+
+                        // With activity filters, trigger on newly started matching activities
+                        // Otherwise, trigger on status transitions
+                        let startedActivities: Activity[] = [];
+                        if (activityTypes.length || activityName) {
+                            startedActivities = newPresence.activities.filter((activity) => {
+                                if (activityTypes.length && !activityTypes.includes(ActivityType[activity.type])) return false;
+                                if (activityName && !activity.name.toLowerCase().includes(activityName)) return false;
+                                return !oldPresence?.activities.some((oldActivity) =>
+                                    oldActivity.type === activity.type && oldActivity.name === activity.name
+                                );
+                            });
+                            if (startedActivities.length === 0) continue;
+                        } else {
+                            if (oldStatus === newStatus) continue;
+                            if (parameters.fromStatuses?.length && !parameters.fromStatuses.includes(oldStatus)) continue;
+                        }
+
+                        console.log(`Presence trigger activated for node ${nodeId}. Member: ${member.id}, status: ${oldStatus} -> ${newStatus}`);
+
+                        emitTriggerEvent('presenceUpdate', nodeId, {
+                            userId: member.id,
+                            userName: member.user.username,
+                            displayName: member.displayName,
+                            memberRoles,
+                            guildId: newPresence.guild.id,
+                            oldStatus,
+                            newStatus,
+                            statusChanged: oldStatus !== newStatus,
+                            startedActivities: startedActivities.map(formatActivity),
+                            before: formatPresence(oldPresence),
+                            after: formatPresence(newPresence),
+                            timestamp: Date.now(),
+                        });
+                    } catch (e) {
+                        console.error(`Error processing presence for node ${nodeId}:`, e);
+                    }
+                }
+            } catch (error) {
+                console.error('Error in presence handler:', error);
+            }
+        });
+    }
+
+    // Helper function to setup ban/unban handlers for a client
+    function setupClientModerationHandler(client: Client): void {
+        client.on('guildBanAdd', async (ban: GuildBan) => {
+            await handleBan(client, ban, 'ban');
+        });
 
-interface IWebhookData {
-    // Define minimum required properties
-    httpMethod: string;
-    path: string;
-}
+        client.on('guildBanRemove', async (ban: GuildBan) => {
+            await handleBan(client, ban, 'unban');
+        });
+    }
 
-interface IWorkflow {
-    // Define minimum required properties
-    id: string;
-}
+    // Function to find the moderator of a ban or unban in the audit log
+    async function fetchBanExecutor(ban: GuildBan, event: 'ban' | 'unban'): Promise<{ id: string; username: string; reason: string | null } | null> {
+        try {
+            const auditLogs = await ban.guild.fetchAuditLogs({
+                type: event === 'ban' ? AuditLogEvent.MemberBanAdd : AuditLogEvent.MemberBanRemove,
+                limit: 5,
+            });
 
-interface IWorkflowExecuteAdditionalData {
-    // Define minimum required properties
-}
+            // Only consider recent entries, an older entry for the same user belongs to a previous action
+            const entry = auditLogs.entries.find((logEntry) =>
+                logEntry.targetId === ban.user.id && Date.now() - logEntry.createdTimestamp < 30000
+            );
+            if (!entry?.executor) return null;
 
-// Update IBotInstance interface
-interface IBotInstance {
-    id: string;
-    client: Client;
-    triggerNodes: { [key: string]: ITriggerNode };
-    ready: boolean;
-    login: boolean;
-    clientId: string;
-    token: string;
-    baseUrl: string;
-    parameters: any;
-}
+            // Uncached moderators are received as partial users
+            const executor = entry.executor.partial ? await entry.executor.fetch() : entry.executor;
 
-// Store clients for different Discord accounts
-const clients: { [credentialHash: string]: Client } = {};
+            return {
+                id: executor.id,
+                username: executor.username,
+                reason: entry.reason,
+            };
+        } catch (error) {
+            console.error(`Error fetching audit log for guild ${ban.guild.id}:`, error);
+            return null;
+        }
+    }
 
-// Track active connections for cleanup
-const activeConnections: Set<string> = new Set();
+    async function handleBan(client: Client, partialBan: GuildBan, event: 'ban' | 'unban'): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'moderation');
+            if (relevantNodeIds.length === 0) return;
 
-// Store placeholders for running workflows
-const placeholders: { [nodeId: string]: { message: Message, interval: NodeJS.Timeout } } = {};
+            // The ban reason is only known once the ban is fetched, which is not possible anymore after an unban
+            const ban = event === 'ban' && partialBan.partial
+                ? await partialBan.fetch().catch(() => partialBan)
+                : partialBan;
 
-// Store message queues for each node
-const messageQueues: { [nodeId: string]: any[] } = {};
+            // The audit log is fetched at most once per event
+            let executor: { id: string; username: string; reason: string | null } | null | undefined;
 
-export default function (): void {
-    // Prevent multiple instances of the bot server
-    if (global.__n8nDiscordServerStarted) {
-        console.log('Bot server already started, skipping initialization');
-        return;
-    }
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
 
-    // Choose socket path based on operating system
-    // Windows uses named pipes, Unix-like systems use Unix domain sockets
-    const socketPath = os.platform() === 'win32'
-        ? '\\\\.\\pipe\\n8n-discord-bot'  // Windows named pipe - must match helper.ts
-        : '/tmp/bot';                     // Unix domain socket
+                    const moderationEvents = parameters.moderationEvents?.length ? parameters.moderationEvents : ['ban', 'unban'];
+                    if (!moderationEvents.includes(event)) continue;
 
-    console.log(`Using socket path: ${socketPath}`);
+                    // Check guild restrictions for this specific node
+                    if (!matchesNodeRestrictions(parameters, { guildId: ban.guild.id })) continue;
 
-    // Clean up any existing socket file to prevent EADDRINUSE errors
-    // Only needed for Unix platforms, not for Windows named pipes
-    if (os.platform() !== 'win32' && fs.existsSync(socketPath)) {
-        try {
-            fs.unlinkSync(socketPath);
-            console.log(`Removed existing socket file at ${socketPath}`);
-        } catch (err) {
-            console.error(`Error cleaning up socket file:`, err);
+                    if (parameters.includeExecutor && executor === undefined) {
+                        executor = await fetchBanExecutor(ban, event);
+                    }
+
+                    console.log(`Moderation trigger activated for node ${nodeId}. Event: ${event}, user: ${ban.user.id}, guild: ${ban.guild.name} (${ban.guild.id})`);
+
+                    emitTriggerEvent(event === 'ban' ? 'guildBanAdd' : 'guildBanRemove', nodeId, {
+                        event,
+                        userId: ban.user.id,
+                        userName: ban.user.username,
+                        userIsBot: ban.user.bot,
+                        reason: ban.reason ?? executor?.reason ?? null,
+                        guildId: ban.guild.id,
+                        guildName: ban.guild.name,
+                        executorId: parameters.includeExecutor ? executor?.id ?? null : null,
+                        executorName: parameters.includeExecutor ? executor?.username ?? null : null,
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing ban for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in moderation handler:', error);
         }
     }
 
-    // Configure IPC
-    ipc.config.id = 'bot';
-    ipc.config.retry = 1500;
-    ipc.config.silent = false; // Enable logs for debugging
+    // Helper function to setup guild create/delete handlers for a client
+    function setupClientGuildHandler(client: Client): void {
+        client.on('guildCreate', async (guild: Guild) => {
+            await handleGuildEvent(client, guild, 'added');
+        });
 
-    // Set different socket configurations depending on the OS
-    if (os.platform() === 'win32') {
-        ipc.config.networkHost = 'localhost';        // Only needed for Windows
-        ipc.config.networkPort = 8000;              // Only needed for Windows
-    } else {
-        ipc.config.socketRoot = '/tmp/';            // Unix socket path
-        ipc.config.appspace = '';                   // Unix socket option
-        ipc.config.unlink = true;                   // Clean up socket on exit
+        client.on('guildDelete', async (guild: Guild) => {
+            // The event is also emitted when a guild becomes unavailable because of an outage
+            if (!guild.available) return;
+            await handleGuildEvent(client, guild, 'removed');
+        });
     }
 
-    ipc.config.maxRetries = 10;                     // Set maximum retries
-    ipc.config.stopRetrying = false;                // Don't stop retrying
+    async function handleGuildEvent(client: Client, guild: Guild, event: 'added' | 'removed'): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'guild');
+            if (relevantNodeIds.length === 0) return;
 
-    console.log(`IPC Server Configuration: ${os.platform() === 'win32' ? 'Windows Named Pipe' : 'Unix Socket'}`);
-    console.log(`Expected socket path: ${socketPath}`);
+            // The owner and the bot permissions can only be resolved while the bot is still in the guild
+            const owner = event === 'added' ? await guild.fetchOwner().catch(() => null) : null;
+            const permissions = event === 'added' ? guild.members.me?.permissions : null;
 
-    // Export the socket path so helper.ts can use it
-    if (typeof global.__n8nDiscordSocketPath === 'undefined') {
-        Object.defineProperty(global, '__n8nDiscordSocketPath', {
-            value: socketPath,
-            writable: false,
-            configurable: false,
-        });
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    const guildEvents = parameters.guildEvents?.length ? parameters.guildEvents : ['added', 'removed'];
+                    if (!guildEvents.includes(event)) continue;
+
+                    console.log(`Guild trigger activated for node ${nodeId}. Event: ${event}, guild: ${guild.name} (${guild.id})`);
+
+                    emitTriggerEvent(event === 'added' ? 'guildCreate' : 'guildDelete', nodeId, {
+                        event,
+                        guildId: guild.id,
+                        guildName: guild.name,
+                        ownerId: guild.ownerId,
+                        ownerName: owner?.user.username ?? null,
+                        memberCount: guild.memberCount,
+                        botPermissions: permissions ? permissions.toArray() : [],
+                        botIsAdministrator: permissions ? permissions.has('Administrator') : false,
+                        preferredLocale: guild.preferredLocale,
+                        joinedTimestamp: guild.joinedTimestamp,
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing guild event for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in guild handler:', error);
+        }
     }
 
-    // Mark server as started to prevent duplicate initialization
-    global.__n8nDiscordServerStarted = true;
+    async function handleContextMenuCommand(client: Client, interaction: ContextMenuCommandInteraction): Promise<void> {
+        const relevantNodeIds = getRelevantNodeIds(client, 'contextMenu');
+        if (relevantNodeIds.length === 0) return;
+
+        const memberRoles = getInteractionMemberRoles(interaction);
+        const contextMenuType = interaction.isUserContextMenuCommand() ? 'user' : 'message';
+        const { user } = interaction;
+
+        // Format the target of the command, either a message or a user
+        let targetMessage: Record<string, any> | null = null;
+        let targetUser: Record<string, any> | null = null;
+        if (interaction.isMessageContextMenuCommand()) {
+            const message = interaction.targetMessage;
+            targetMessage = {
+                id: message.id,
+                content: message.content,
+                authorId: message.author.id,
+                authorName: message.author.username,
+                authorIsBot: message.author.bot || message.author.system,
+                channelId: message.channelId,
+                timestamp: message.createdTimestamp,
+                attachments: formatAttachments(message),
+            };
+        }
+        else if (interaction.isUserContextMenuCommand()) {
+            const member = interaction.targetMember;
+            targetUser = {
+                id: interaction.targetUser.id,
+                username: interaction.targetUser.username,
+                bot: interaction.targetUser.bot,
+                displayName: member && 'displayName' in member ? member.displayName : interaction.targetUser.displayName,
+                roles: member ? (Array.isArray(member.roles) ? member.roles : member.roles.cache.map((role) => role.id)) : [],
+            };
+        }
 
-    // Helper function to create a new Discord client
-    function createNewClient(credentials: ICredentials): Client {
-        const client = new Client({
-            intents: [
-                GatewayIntentBits.Guilds,
-                GatewayIntentBits.GuildMessages,
-                GatewayIntentBits.MessageContent,
-                GatewayIntentBits.GuildMembers,
-                GatewayIntentBits.GuildPresences,
-                GatewayIntentBits.GuildBans,
-                GatewayIntentBits.GuildMessageReactions,
-                GatewayIntentBits.GuildMessageTyping,
-            ],
-            allowedMentions: {
-                parse: ['roles', 'users', 'everyone'],
-            },
+        for (const nodeId of relevantNodeIds) {
+            try {
+                const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                if (!parameters) continue;
+
+                if ((parameters.contextMenuType || 'message') !== contextMenuType) continue;
+                if (String(parameters.contextMenuName || '').trim() !== interaction.commandName) continue;
+
+                // Check guild, channel and role restrictions for this specific node
+                if (!matchesNodeRestrictions(parameters, {
+                    guildId: interaction.guildId,
+                    channel: interaction.channel,
+                    channelId: interaction.channelId,
+                    memberRoles,
+                })) continue;
+
+                // Acknowledge the command once, the workflow can then edit the deferred reply using the token
+                await autoAcknowledgeInteraction(parameters, interaction, () => interaction.deferReply());
+
+                console.log(`Context menu trigger activated for node ${nodeId}. Command: ${interaction.commandName}, target: ${interaction.targetId}`);
+
+                emitTriggerEvent('interactionCreate', nodeId, {
+                    interactionId: interaction.id,
+                    interactionToken: interaction.token,
+                    applicationId: interaction.applicationId,
+                    commandId: interaction.commandId,
+                    commandName: interaction.commandName,
+                    contextMenuType,
+                    targetId: interaction.targetId,
+                    targetMessage,
+                    targetUser,
+                    acknowledged: interaction.deferred || interaction.replied,
+                    userId: user.id,
+                    userName: user.username,
+                    memberRoles,
+                    channelId: interaction.channelId,
+                    guildId: interaction.guildId,
+                    timestamp: interaction.createdTimestamp,
+                });
+            } catch (e) {
+                console.error(`Error processing context menu command for node ${nodeId}:`, e);
+            }
+        }
+    }
+
+    // Helper function to setup scheduled event handlers for a client
+    function setupClientScheduledEventHandler(client: Client): void {
+        client.on('guildScheduledEventCreate', async (scheduledEvent) => {
+            await handleScheduledEvent(client, 'create', scheduledEvent);
         });
 
-        client.once('ready', () => {
-            console.log(`Logged in as ${client.user?.tag} (Client ID: ${credentials.clientId})`);
+        client.on('guildScheduledEventUpdate', async (oldScheduledEvent, newScheduledEvent) => {
+            await handleScheduledEvent(client, 'update', newScheduledEvent, oldScheduledEvent);
         });
 
-        // Set up onMessageCreate handler for this specific client
-        setupClientMessageHandler(client);
+        client.on('guildScheduledEventDelete', async (scheduledEvent) => {
+            await handleScheduledEvent(client, 'delete', scheduledEvent);
+        });
 
-        return client;
-    }
+        client.on('guildScheduledEventUserAdd', async (scheduledEvent, user) => {
+            await handleScheduledEvent(client, 'userAdd', scheduledEvent, null, user);
+        });
 
-    // Helper function to setup message handler for a client
-    function setupClientMessageHandler(client: Client): void {
-        client.on('messageCreate', async (message: Message) => {
-            try {
-                // Get all relevant node IDs for this client
-                const relevantNodeIds = Object.entries(settings.triggerNodes)
-                    .filter(([_, data]) => {
-                        const credHash = (data as unknown as ITriggerNode).credHash;
-                        const botInstance = settings.botInstances[credHash] as IBotInstance | undefined;
-                        return botInstance && botInstance.clientId === client.application?.id;
-                    })
-                    .map(([nodeId, _]) => nodeId);
+        client.on('guildScheduledEventUserRemove', async (scheduledEvent, user) => {
+            await handleScheduledEvent(client, 'userRemove', scheduledEvent, null, user);
+        });
+    }
 
-                if (relevantNodeIds.length === 0) return;
+    async function handleScheduledEvent(
+        client: Client,
+        event: 'create' | 'update' | 'delete' | 'userAdd' | 'userRemove',
+        partialScheduledEvent: GuildScheduledEvent | PartialGuildScheduledEvent,
+        oldScheduledEvent?: GuildScheduledEvent | PartialGuildScheduledEvent | null,
+        partialUser?: User | PartialUser,
+    ): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'scheduledEvent');
+            if (relevantNodeIds.length === 0) return;
 
-                // resolve the message reference if it exists
-                let messageReference: Message | null = null;
-                let messageReferenceFetched = !message.reference;
+            // Deleted events can not be fetched anymore, the partial data is used as is
+            const scheduledEvent = partialScheduledEvent.partial && event !== 'delete'
+                ? await partialScheduledEvent.fetch().catch(() => partialScheduledEvent)
+                : partialScheduledEvent;
 
-                // Instead of checking each node's parameters after common checks,
-                // process each node independently to ensure proper isolation
-                for (const nodeId of relevantNodeIds) {
-                    try {
-                        const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
-                        if (!parameters) continue;
+            // Interested users are only received with their ID when they are not cached
+            const user = partialUser?.partial
+                ? await partialUser.fetch().catch(() => null)
+                : partialUser;
 
-                        // Get specific pattern for this node
-                        const pattern = parameters.pattern as string;
-                        const triggerOnExternalBot = parameters.additionalFields?.externalBotTrigger || false;
+            const status = scheduledEvent.status !== null ? GuildScheduledEventStatus[scheduledEvent.status] : null;
+            const oldStatus = oldScheduledEvent && oldScheduledEvent.status !== null
+                ? GuildScheduledEventStatus[oldScheduledEvent.status]
+                : status;
 
-                        // Check if this node should process bot messages
-                        if (!triggerOnExternalBot) {
-                            if (message.author.bot || message.author.system) continue;
-                        }
-                        else if (message.author.id === message.client.user?.id) continue;
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    const scheduledEventEvents = parameters.scheduledEventEvents?.length
+                        ? parameters.scheduledEventEvents
+                        : ['create', 'update', 'delete'];
+                    if (!scheduledEventEvents.includes(event)) continue;
+
+                    // Check guild restrictions for this specific node
+                    if (!matchesNodeRestrictions(parameters, { guildId: scheduledEvent.guildId })) continue;
+
+                    console.log(`Scheduled event trigger activated for node ${nodeId}. Event: ${event}, scheduled event: ${scheduledEvent.id}`);
+
+                    emitTriggerEvent(`guildScheduledEvent${event.charAt(0).toUpperCase()}${event.slice(1)}`, nodeId, {
+                        event,
+                        scheduledEventId: scheduledEvent.id,
+                        name: scheduledEvent.name,
+                        description: scheduledEvent.description,
+                        status,
+                        oldStatus,
+                        statusChanged: status !== oldStatus,
+                        entityType: scheduledEvent.entityType !== null ? GuildScheduledEventEntityType[scheduledEvent.entityType] : null,
+                        location: scheduledEvent.entityMetadata?.location ?? null,
+                        channelId: scheduledEvent.channelId,
+                        scheduledStartTimestamp: scheduledEvent.scheduledStartTimestamp,
+                        scheduledEndTimestamp: scheduledEvent.scheduledEndTimestamp,
+                        creatorId: scheduledEvent.creatorId,
+                        userCount: scheduledEvent.userCount,
+                        url: scheduledEvent.url,
+                        guildId: scheduledEvent.guildId,
+                        userId: user?.id ?? partialUser?.id ?? null,
+                        userName: user?.username ?? null,
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing scheduled event for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in scheduled event handler:', error);
+        }
+    }
 
-                        // Check guild restrictions for this specific node
-                        if (parameters.guildIds && parameters.guildIds.length > 0) {
-                            const isInGuild = message.guild?.id ? parameters.guildIds.includes(message.guild.id) : false;
-                            if (!isInGuild) continue;
-                        }
+    // Helper function to setup poll vote handlers for a client
+    function setupClientPollHandler(client: Client): void {
+        client.on('messagePollVoteAdd', async (pollAnswer: PollAnswer | PartialPollAnswer, userId: string) => {
+            await handlePollVote(client, pollAnswer, userId, 'add');
+        });
 
-                        // Check role restrictions for this specific node
-                        const userRoles = message.member?.roles.cache.map((role) => role.id);
-                        if (parameters.roleIds && parameters.roleIds.length) {
-                            const hasRole = parameters.roleIds.some((role: string) => userRoles?.includes(role));
-                            if (!hasRole) continue;
-                        }
+        client.on('messagePollVoteRemove', async (pollAnswer: PollAnswer | PartialPollAnswer, userId: string) => {
+            await handlePollVote(client, pollAnswer, userId, 'remove');
+        });
+    }
 
-                        // Check channel restrictions for this specific node
-                        if (parameters.channelIds && parameters.channelIds.length) {
-                            const isInChannel = parameters.channelIds.some((channelId: string) =>
-                                message.channel.id?.includes(channelId)
-                            );
-                            if (!isInChannel) continue;
-                        }
+    async function handlePollVote(
+        client: Client,
+        pollAnswer: PollAnswer | PartialPollAnswer,
+        userId: string,
+        action: 'add' | 'remove',
+    ): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'pollVote');
+            if (relevantNodeIds.length === 0) return;
+
+            // Fetch the message again to get up to date tallies
+            // Polls created before the bot started are received as partials, the fetched message holds the full poll
+            const message = await pollAnswer.poll.message.fetch()
+                .catch(() => pollAnswer.poll.partial ? null : pollAnswer.poll.message);
+            const poll = message?.poll;
+            if (!message || !poll) {
+                console.log(`Unable to fetch the poll of message ${pollAnswer.poll.messageId}`);
+                return;
+            }
+            const answer = poll.answers.get(pollAnswer.id) ?? pollAnswer;
+            const user = await client.users.fetch(userId).catch(() => null);
 
-                        // Check reference requirement for this specific node
-                        if (parameters.messageReferenceRequired && !message.reference) {
-                            continue;
-                        }
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    const pollVoteEvents = parameters.pollVoteEvents?.length ? parameters.pollVoteEvents : ['add', 'remove'];
+                    if (!pollVoteEvents.includes(action)) continue;
+
+                    // Check if this node should process bot votes
+                    if (ignoresUser(client, parameters, user, userId)) continue;
+
+                    // Check guild and channel restrictions for this specific node
+                    if (!matchesNodeRestrictions(parameters, {
+                        guildId: message.guildId,
+                        channel: message.channel,
+                        channelId: message.channelId,
+                    })) continue;
+
+                    // Check message restrictions for this specific node
+                    const messageIds = splitListParameter(parameters.pollMessageIds);
+                    if (messageIds.length && !messageIds.includes(message.id)) continue;
+
+                    console.log(`Poll vote trigger activated for node ${nodeId}. Action: ${action}, answer: ${pollAnswer.id}, message: ${message.id}`);
+
+                    const tallies = poll.answers.map((answer) => ({
+                        answerId: answer.id,
+                        text: answer.text,
+                        voteCount: answer.voteCount,
+                    }));
+
+                    emitTriggerEvent(action === 'add' ? 'messagePollVoteAdd' : 'messagePollVoteRemove', nodeId, {
+                        action,
+                        question: poll.question.text,
+                        answerId: answer.id,
+                        answerText: answer.text,
+                        answerEmoji: answer.emoji?.name ?? null,
+                        userId,
+                        userName: user?.username ?? null,
+                        tallies,
+                        totalVotes: tallies.reduce((total, answer) => total + answer.voteCount, 0),
+                        allowMultiselect: poll.allowMultiselect,
+                        resultsFinalized: poll.resultsFinalized,
+                        expiresTimestamp: poll.expiresTimestamp,
+                        messageId: message.id,
+                        channelId: message.channelId,
+                        guildId: message.guildId,
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing poll vote for node ${nodeId}:`, e);
+                }
+            }
+        } catch (error) {
+            console.error('Error in poll vote handler:', error);
+        }
+    }
 
-                        // Fetch message reference if needed - only once per message processing
-                        if (!messageReferenceFetched && message.reference) {
-                            try {
-                                messageReference = await message.fetchReference();
-                                messageReferenceFetched = true;
-                            } catch (e) {
-                                console.log(`Error fetching message reference:`, e);
-                            }
-                        }
+    // Function to take a snapshot of the tracked properties of a channel
+    function getChannelSnapshot(channel: GuildChannel): Record<string, any> {
+        return {
+            name: channel.name,
+            type: ChannelType[channel.type],
+            position: channel.position,
+            parentId: channel.parentId,
+            permissionOverwrites: channel.permissionOverwrites.cache.map((overwrite) => ({
+                id: overwrite.id,
+                type: overwrite.type === OverwriteType.Role ? 'role' : 'member',
+                allow: overwrite.allow.toArray(),
+                deny: overwrite.deny.toArray(),
+            })),
+        };
+    }
 
-                        const clientId = client.user?.id;
-                        if (!clientId) continue;
-
-                        // Prepare regex and other checks for this specific node
-                        const escapedTriggerValue = String(parameters.value || '')
-                            .replace(/[|\\{}()[\]^$+*?.]/g, '\\$&')
-                            .replace(/-/g, '\\x2d');
-
-                        // Bot mention detection for this specific node
-                        const mentionRegex = new RegExp(`<@!?${clientId}>|<@${clientId}>`, 'g');
-                        const botMention = message.mentions.users.some((user) => user.id === clientId) ||
-                                        mentionRegex.test(message.content || '');
-
-                        // Image attachment check for this specific node
-                        const hasImageAttachments = message.attachments.some(attachment => {
-                            const contentType = attachment.contentType?.toLowerCase() || '';
-                            // First check by content type
-                            if (contentType.startsWith('image/')) {
-                                return true;
-                            }
+    // Function to take a snapshot of the tracked properties of a role
+    function getRoleSnapshot(role: Role): Record<string, any> {
+        return {
+            name: role.name,
+            position: role.position,
+            color: role.hexColor,
+            hoist: role.hoist,
+            mentionable: role.mentionable,
+            permissions: role.permissions.toArray(),
+        };
+    }
 
-                            // If content type is missing or unknown, check file extension
-                            if (!contentType && attachment.name) {
-                                const extension = attachment.name.split('.').pop()?.toLowerCase();
-                                return ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'tiff'].includes(extension || '');
-                            }
+    // Function to list the properties that differ between two snapshots
+    function getSnapshotChanges(before: Record<string, any> | null, after: Record<string, any> | null): { field: string; before: any; after: any }[] {
+        const fields = Object.keys(after ?? before ?? {});
+        return fields
+            .filter((field) => JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field]))
+            .map((field) => ({
+                field,
+                before: before?.[field] ?? null,
+                after: after?.[field] ?? null,
+            }));
+    }
 
-                            return false;
-                        });
+    // Helper function to setup channel and role lifecycle handlers for a client
+    function setupClientServerStructureHandler(client: Client): void {
+        client.on('channelCreate', async (channel: NonThreadGuildBasedChannel) => {
+            await handleServerStructureEvent(client, 'channelCreate', channel.guild.id, channel.id, null, getChannelSnapshot(channel));
+        });
 
-                        // Select regex pattern based on this node's configuration
-                        let regStr = `^${escapedTriggerValue}$`;
+        client.on('channelUpdate', async (oldChannel: DMChannel | NonThreadGuildBasedChannel, newChannel: DMChannel | NonThreadGuildBasedChannel) => {
+            if (oldChannel.isDMBased() || newChannel.isDMBased()) return;
+            await handleServerStructureEvent(client, 'channelUpdate', newChannel.guild.id, newChannel.id, getChannelSnapshot(oldChannel), getChannelSnapshot(newChannel));
+        });
 
-                        if (pattern === "botMention" && !botMention) {
-                            continue;
-                        }
-                        else if (pattern === "containImage" && !hasImageAttachments) {
-                            continue;
-                        }
-                        else if (pattern === "start" && message.content)
-                            regStr = `^${escapedTriggerValue}`;
-                        else if (pattern === 'end')
-                            regStr = `${escapedTriggerValue}$`;
-                        else if (pattern === 'contain')
-                            regStr = `${escapedTriggerValue}`;
-                        else if (pattern === 'regex')
-                            regStr = `${parameters.value}`;
-                        else if (pattern === 'every')
-                            regStr = `(.*)`;
-
-                        const reg = new RegExp(regStr, parameters.caseSensitive ? '' : 'i');
-                        const messageContent = message.content || '';
-
-                        // Check if the message matches this node's pattern
-                        if ((pattern === "botMention" && botMention) ||
-                            (pattern === "containImage" && hasImageAttachments) ||
-                            (pattern !== "botMention" && pattern !== "containImage" && reg.test(messageContent))) {
-
-                            // For bot mentions, clean up the content
-                            let processedContent = messageContent;
-                            if (pattern === "botMention" && botMention) {
-                                processedContent = messageContent.replace(mentionRegex, '').trim();
-                            }
+        client.on('channelDelete', async (channel: DMChannel | NonThreadGuildBasedChannel) => {
+            if (channel.isDMBased()) return;
+            await handleServerStructureEvent(client, 'channelDelete', channel.guild.id, channel.id, getChannelSnapshot(channel), null);
+        });
 
-                            // Before emitting message data, check if the workflow is still active
-                            // We store this in the triggerNodes object
-                            const nodeInfo = settings.triggerNodes[nodeId];
-                            if (!nodeInfo) {
-                                console.log(`Skipping trigger for unregistered node: ${nodeId}`);
-                                return;
-                            }
+        client.on('roleCreate', async (role: Role) => {
+            await handleServerStructureEvent(client, 'roleCreate', role.guild.id, role.id, null, getRoleSnapshot(role));
+        });
 
-                            // Allow messages to be processed even if the node is not active
-                            // This is necessary for test workflows in n8n
-                            // The workflow will only actually execute if it's being tested or is active
+        client.on('roleUpdate', async (oldRole: Role, newRole: Role) => {
+            await handleServerStructureEvent(client, 'roleUpdate', newRole.guild.id, newRole.id, getRoleSnapshot(oldRole), getRoleSnapshot(newRole));
+        });
 
-                            console.log(`Trigger activated for node ${nodeId}. Pattern: ${pattern}, botMention: ${botMention}, hasImageAttachments: ${hasImageAttachments}, guild: ${message.guild?.name || 'DM'} (${message.guild?.id || 'none'})`);
+        client.on('roleDelete', async (role: Role) => {
+            await handleServerStructureEvent(client, 'roleDelete', role.guild.id, role.id, getRoleSnapshot(role), null);
+        });
+    }
 
-                            // Send placeholder message if configured
-                            if (parameters.placeholder && parameters.placeholder.trim() !== '') {
-                                sendPlaceholderMessage(nodeId, message.channel as TextChannel, parameters.placeholder);
-                            }
+    async function handleServerStructureEvent(
+        client: Client,
+        event: string,
+        guildId: string,
+        targetId: string,
+        before: Record<string, any> | null,
+        after: Record<string, any> | null,
+    ): Promise<void> {
+        try {
+            const relevantNodeIds = getRelevantNodeIds(client, 'serverStructure');
+            if (relevantNodeIds.length === 0) return;
 
-                            // Emit the message data specifically to this node
-                            const messageData = {
-                                message: {
-                                    ...message,
-                                    processedContent: pattern === "botMention" ? processedContent : messageContent
-                                },
-                                messageReference,
-                                referenceAuthor: messageReference?.author,
-                                author: message.author,
-                                nodeId: nodeId
-                            };
+            // Updates of untracked properties, such as the last message of a channel, are ignored
+            const changes = getSnapshotChanges(before, after);
+            if (before && after && changes.length === 0) return;
 
-                            // Send message only to this specific node
-                            ipc.server.broadcast('messageCreate', messageData);
-                        }
-                    } catch (e) {
-                        console.error(`Error processing message for node ${nodeId}:`, e);
-                    }
+            for (const nodeId of relevantNodeIds) {
+                try {
+                    const parameters = (settings.triggerNodes[nodeId] as unknown as ITriggerNode)?.parameters;
+                    if (!parameters) continue;
+
+                    const structureEvents = parameters.structureEvents?.length
+                        ? parameters.structureEvents
+                        : ['channelCreate', 'channelUpdate', 'channelDelete', 'roleCreate', 'roleUpdate', 'roleDelete'];
+                    if (!structureEvents.includes(event)) continue;
+
+                    // Check guild restrictions for this specific node
+                    if (!matchesNodeRestrictions(parameters, { guildId })) continue;
+
+                    console.log(`Server structure trigger activated for node ${nodeId}. Event: ${event}, target: ${targetId}`);
+
+                    emitTriggerEvent(event, nodeId, {
+                        event,
+                        targetType: event.startsWith('channel') ? 'channel' : 'role',
+                        id: targetId,
+                        name: (after ?? before)?.name ?? null,
+                        guildId,
+                        before,
+                        after,
+                        changes,
+                        changedFields: changes.map((change) => change.field),
+                        timestamp: Date.now(),
+                    });
+                } catch (e) {
+                    console.error(`Error processing server structure event for node ${nodeId}:`, e);
                 }
-            } catch (error) {
-                console.error('Error in message handler:', error);
             }
-        });
+        } catch (error) {
+            console.error('Error in server structure handler:', error);
+        }
     }
 
     // Function to send a placeholder message with animated dots
@@ -652,18 +3111,24 @@ export default function (): void {
             console.log(`Socket disconnected. Remaining connections: ${connectedSockets.size}`);
         });
 
-        ipc.server.on('triggerNodeRegistered', function(data, socket) {
-            try {
-                const { nodeId } = data.nodeParameters;
+        ipc.server.on('triggerNodeRegistered', async function(data, socket) {
+            const { nodeId } = data.nodeParameters || {};
 
+            try {
                 if (!nodeId) {
                     console.error('Missing nodeId in triggerNodeRegistered request');
                     ipc.server.emit(socket, `callback:triggerNodeRegistered`, { success: false });
                     return;
                 }
 
-                // Track this node for future reference
-                settings.triggerNodes[nodeId] = data.nodeParameters;
+                // Track this node for future reference, along with the credentials it uses
+                const triggerNode = {
+                    parameters: data.nodeParameters,
+                    credHash: data.credentialHash,
+                    credentialHash: data.credentialHash,
+                    active: Boolean(data.nodeParameters.active),
+                };
+                settings.triggerNodes[nodeId] = triggerNode;
                 console.log(`Registered trigger node ${nodeId}`);
 
                 // Initialize message queue for this node if it doesn't exist
@@ -671,9 +3136,38 @@ export default function (): void {
                     messageQueues[nodeId] = [];
                 }
 
+                // Fill the invite cache used to find out which invite a new member used, without waiting for it
+                const client = clients[data.credentialHash];
+                if (usesJoinInvites(triggerNode.parameters) && client?.isReady()) {
+                    cacheClientInvites(client).catch((e) => console.error(`Error caching invites:`, e));
+                }
+
+                // Register the slash or context menu command declared by this node
+                // The registration is aborted before the trigger stops waiting for the answer (10s)
+                if (['slashCommand', 'contextMenu'].includes(triggerNode.parameters.type)) {
+                    const command = triggerNode.parameters.type === 'slashCommand'
+                        ? buildSlashCommand(triggerNode.parameters)
+                        : buildContextMenuCommand(triggerNode.parameters);
+                    const abortController = new AbortController();
+                    const abortTimeout = setTimeout(() => abortController.abort(), 8000);
+
+                    try {
+                        await registerApplicationCommand(nodeId, data.credentialHash, command, abortController.signal);
+                    } finally {
+                        clearTimeout(abortTimeout);
+                    }
+                }
+
                 ipc.server.emit(socket, `callback:triggerNodeRegistered`, { success: true });
             } catch (error) {
                 console.error('Error handling triggerNodeRegistered:', error);
+
+                // The trigger fails to activate, do not leave the node or its commands behind
+                if (nodeId) {
+                    delete settings.triggerNodes[nodeId];
+                    unregisterApplicationCommands(nodeId).catch((e) => console.error(`Error unregistering commands of node ${nodeId}:`, e));
+                }
+
                 ipc.server.emit(socket, `callback:triggerNodeRegistered`, { success: false, error: error.message });
             }
         });
@@ -812,6 +3306,8 @@ export default function (): void {
                 if (messageQueues[nodeId]) {
                     delete messageQueues[nodeId];
                 }
+                pruneTriggerHistory(nodeId);
+                clearMessageBursts(nodeId);
 
                 // Remove from settings if tracked
                 if (settings.triggerNodes[nodeId]) {
@@ -844,6 +3340,8 @@ export default function (): void {
                 // Clean up resources for this node
                 clearPlaceholder(nodeId);
                 delete messageQueues[nodeId];
+                pruneTriggerHistory(nodeId);
+                clearMessageBursts(nodeId);
 
                 // Remove from tracked nodes
                 if (settings.triggerNodes[nodeId]) {
@@ -979,7 +3477,7 @@ export default function (): void {
 
         ipc.server.on('list:channels', function(data, socket) {
             try {
-                const { guildIds, credentialHash } = data;
+                const { guildIds, channelKind, credentialHash } = data;
                 if (!guildIds || !Array.isArray(guildIds) || !credentialHash) {
                     ipc.server.emit(socket, 'list:channels', []);
                     return;
@@ -1004,10 +3502,16 @@ export default function (): void {
                 const channelsList: { name: string; value: string }[] = [];
 
                 for (const guild of guilds.values()) {
-                    const channels = guild.channels.cache.filter(channel => channel.type === ChannelType.GuildText);
+                    // Forum channels and categories can only be listened to by triggers, messages cannot be sent to them
+                    const channelTypes: ChannelType[] = {
+                        voice: [ChannelType.GuildVoice, ChannelType.GuildStageVoice],
+                        textAndCategories: [ChannelType.GuildText, ChannelType.GuildForum, ChannelType.GuildCategory],
+                    }[channelKind as string] ?? [ChannelType.GuildText];
+
+                    const channels = guild.channels.cache.filter(channel => channelTypes.includes(channel.type));
                     for (const channel of channels.values()) {
                         channelsList.push({
-                            name: channel.name,
+                            name: channel.type === ChannelType.GuildCategory ? `Category: ${channel.name}` : channel.name,
                             value: channel.id,
                         });
                     }
@@ -1361,7 +3865,7 @@ export default function (): void {
             }
         });
 
-        ipc.server.on('cleanupBot', async function(data, socket) {
+        ipc.server.on('cleanupBot', function(data, socket) {
             try {
                 const { credentialHash, nodeId } = data;
 
@@ -1375,11 +3879,17 @@ export default function (): void {
 
                 console.log(`Cleaning up node ${nodeId} with credential hash ${credentialHash}`);
 
+                // Remove the application commands registered by this node, without waiting for it
+                // so the client is only destroyed based on the nodes registered right now
+                unregisterApplicationCommands(nodeId).catch((e) => console.error(`Error unregistering commands of node ${nodeId}:`, e));
+
                 // Remove the node from settings
                 if (nodeId && settings.triggerNodes[nodeId]) {
                     delete settings.triggerNodes[nodeId];
                     console.log(`Removed node ${nodeId} from settings`);
                 }
+                pruneTriggerHistory(nodeId);
+                clearMessageBursts(nodeId);
 
                 // Check if this was the last node using this credential hash
                 const remainingNodes = Object.entries(settings.triggerNodes)
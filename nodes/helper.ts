@@ -245,7 +245,7 @@ function createIPCConnection(credentialHash: string): Promise<any> {
     });
 }
 
-export const getChannels = async (that: any, guildIds: string[]): Promise<INodePropertyOptions[]> => {
+export const getChannels = async (that: any, guildIds: string[], channelKind: 'text' | 'textAndCategories' | 'voice' = 'text'): Promise<INodePropertyOptions[]> => {
     const endMessage = ' - Close and reopen this node modal once you have made changes.';
 
     try {
@@ -297,6 +297,7 @@ export const getChannels = async (that: any, guildIds: string[]): Promise<INodeP
                     // Send the request
                     ipcClient.emit('list:channels', {
                         guildIds,
+                        channelKind,
                         credentialHash: credHash
                     });
                 } catch (error) {
@@ -322,8 +323,9 @@ export const getChannels = async (that: any, guildIds: string[]): Promise<INodeP
         if (Array.isArray(channels) && channels.length) {
             return channels;
         } else {
+            const channelLabel = { text: 'text', textAndCategories: 'text', voice: 'voice' }[channelKind];
             return [{
-                name: 'Your Discord server has no text channels, please add at least one text channel' + endMessage,
+                name: `Your Discord server has no ${channelLabel} channels, please add at least one ${channelLabel} channel` + endMessage,
                 value: 'false',
             }];
         }
@@ -779,9 +781,22 @@ export const detectMimeTypeFromFilename = (filename?: string): string => {
         'js': 'text/javascript',
         'json': 'application/json',
         'xml': 'application/xml',
+        'md': 'text/markdown',
+        'rtf': 'application/rtf',
+        'odt': 'application/vnd.oasis.opendocument.text',
+        'ods': 'application/vnd.oasis.opendocument.spreadsheet',
         'zip': 'application/zip',
+        'rar': 'application/vnd.rar',
+        '7z': 'application/x-7z-compressed',
+        'tar': 'application/x-tar',
+        'gz': 'application/gzip',
         'mp3': 'audio/mpeg',
+        'ogg': 'audio/ogg',
+        'm4a': 'audio/mp4',
+        'flac': 'audio/flac',
         'mp4': 'video/mp4',
+        'webm': 'video/webm',
+        'mkv': 'video/x-matroska',
         'wav': 'audio/wav',
         'avi': 'video/x-msvideo',
         'mov': 'video/quicktime'
@@ -790,6 +805,37 @@ export const detectMimeTypeFromFilename = (filename?: string): string => {
     return mimeTypeMap[extension] || 'application/octet-stream';
 };
 
+// Get the category of an attachment (image, audio, video, document, archive or other)
+// The content type sent by Discord is used first, falling back on the file extension
+export const getAttachmentCategory = (contentType?: string | null, filename?: string): string => {
+    const mimeType = (contentType || detectMimeTypeFromFilename(filename)).toLowerCase().split(';')[0].trim();
+
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.startsWith('video/')) return 'video';
+
+    const archiveTypes = [
+        'application/zip',
+        'application/vnd.rar',
+        'application/x-rar-compressed',
+        'application/x-7z-compressed',
+        'application/x-tar',
+        'application/gzip',
+        'application/x-gzip',
+    ];
+    if (archiveTypes.includes(mimeType)) return 'archive';
+
+    if (mimeType.startsWith('text/') ||
+        mimeType.startsWith('application/vnd.openxmlformats-officedocument.') ||
+        mimeType.startsWith('application/vnd.oasis.opendocument.') ||
+        mimeType.startsWith('application/vnd.ms-') ||
+        ['application/pdf', 'application/msword', 'application/rtf', 'application/json', 'application/xml'].includes(mimeType)) {
+        return 'document';
+    }
+
+    return 'other';
+};
+
 function removeTrailingSlash(url: String) {
     if (url.endsWith('/')) {
         return url.slice(0, -1);